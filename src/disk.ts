@@ -0,0 +1,111 @@
+import {
+  closeSync,
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  openSync,
+  readFileSync,
+  readSync,
+  rmSync,
+  statSync,
+  truncateSync,
+  writeFileSync,
+  writeSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { FileContent, StorageBackend } from './opfs';
+
+export interface DiskBackendOptions {
+  // Directory the contents are written to, defaults to a new temporary directory
+  directory?: string;
+}
+
+export interface DiskBackend extends StorageBackend {
+  directory: string;
+}
+
+// Every operation opens the file on its own, so large trees don't run out of file descriptors
+class DiskFileContent implements FileContent {
+  readonly path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  size(): number {
+    return statSync(this.path).size;
+  }
+
+  read(at: number, length: number): Uint8Array {
+    const bytes = new Uint8Array(Math.max(Math.min(length, this.size() - at), 0));
+    const fd = openSync(this.path, 'r');
+    try {
+      let bytesRead = 0;
+      while (bytesRead < bytes.length) {
+        const chunk = readSync(fd, bytes, bytesRead, bytes.length - bytesRead, at + bytesRead);
+        if (chunk === 0) {
+          break;
+        }
+        bytesRead += chunk;
+      }
+      return bytes.subarray(0, bytesRead);
+    } finally {
+      closeSync(fd);
+    }
+  }
+
+  write(at: number, data: Uint8Array): void {
+    // The file is extended up front, so empty writes past the end grow it like they do in memory. The gap reads back as zeros.
+    if (at + data.length > this.size()) {
+      truncateSync(this.path, at + data.length);
+    }
+    const fd = openSync(this.path, 'r+');
+    try {
+      let bytesWritten = 0;
+      while (bytesWritten < data.length) {
+        bytesWritten += writeSync(fd, data, bytesWritten, data.length - bytesWritten, at + bytesWritten);
+      }
+    } finally {
+      closeSync(fd);
+    }
+  }
+
+  truncate(size: number): void {
+    truncateSync(this.path, size);
+  }
+
+  snapshot(): Uint8Array {
+    return new Uint8Array(readFileSync(this.path));
+  }
+
+  dispose(): void {
+    rmSync(this.path, { force: true });
+  }
+}
+
+// Keeps one file on disk per file content, named after the entry it was created for and prefixed with a counter to keep it unique
+export const createDiskBackend = ({ directory }: DiskBackendOptions = {}): DiskBackend => {
+  const root = directory ?? mkdtempSync(join(tmpdir(), 'opfs-mock-'));
+  mkdirSync(root, { recursive: true });
+  let counter = 0;
+
+  return {
+    directory: root,
+    create: (name, source) => {
+      let path: string;
+      // The directory may be shared with other storages or previous runs, existing files are never overwritten
+      do {
+        counter += 1;
+        path = join(root, `${counter}-${name.replace(/[^\w.-]/g, '_')}`);
+      } while (existsSync(path));
+      if (source instanceof DiskFileContent) {
+        copyFileSync(source.path, path);
+      } else {
+        writeFileSync(path, source?.snapshot() ?? new Uint8Array());
+      }
+      return new DiskFileContent(path);
+    },
+  };
+};
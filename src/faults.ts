@@ -0,0 +1,55 @@
+import type { FileSystemOperationInfo } from './opfs';
+import { matchesOperation, type OperationMatcher } from './utils';
+
+export interface FaultRule extends OperationMatcher {
+  // Error to throw, a string is used as the name of a DOMException
+  error: Error | string;
+  // Fail only on the Nth matching call, counting from 1
+  nth?: number;
+  // Chance of failing a matching call, between 0 and 1
+  probability?: number;
+  random?: () => number;
+}
+
+// A predicate returns the error to throw for the operation, or nothing to let it through
+export type FaultPredicate = (info: FileSystemOperationInfo) => Error | string | undefined;
+
+export type FaultInjection = FaultPredicate | FaultRule[];
+
+const toError = (error: Error | string, { operation, path }: FileSystemOperationInfo): Error => {
+  return typeof error === 'string' ? new DOMException(`Injected fault in ${operation} at '${path}'`, error) : error;
+};
+
+// Returns a function that throws when the operation should fail
+export const createFaultInjector = (faults: FaultInjection): ((info: FileSystemOperationInfo) => void) => {
+  if (typeof faults === 'function') {
+    return (info) => {
+      const error = faults(info);
+      if (error) {
+        throw toError(error, info);
+      }
+    };
+  }
+
+  const callCounts = new Map<FaultRule, number>();
+
+  return (info) => {
+    for (const rule of faults) {
+      if (!matchesOperation(rule, info)) {
+        continue;
+      }
+
+      const call = (callCounts.get(rule) ?? 0) + 1;
+      callCounts.set(rule, call);
+
+      if (rule.nth !== undefined && rule.nth !== call) {
+        continue;
+      }
+      if (rule.probability !== undefined && (rule.random ?? Math.random)() >= rule.probability) {
+        continue;
+      }
+
+      throw toError(rule.error, info);
+    }
+  };
+};
@@ -1,43 +1,284 @@
-import { fileSystemDirectoryHandleFactory } from './opfs';
-import { getSizeOfDirectory } from './utils';
+import { createFaultInjector, type FaultInjection } from './faults';
+import { OperationJournal } from './journal';
+import { createLatency, type Latency } from './latency';
+import { FileSystemObserver, notifyObservers } from './observer';
+import {
+  crashDirectory,
+  type DirectorySnapshot,
+  evictDirectory,
+  type FileSystemContext,
+  type FileSystemTree,
+  fileSystemDirectoryHandleFactory,
+  MockFileSystemDirectoryHandle,
+  MockFileSystemFileHandle,
+  MockFileSystemHandle,
+  MockFileSystemSyncAccessHandle,
+  MockFileSystemWritableFileStream,
+  memoryBackend,
+  populateDirectory,
+  restoreDirectory,
+  type SimulateCrashOptions,
+  type StorageBackend,
+  type SyncAccessHandleDurability,
+  snapshotDirectory,
+} from './opfs';
 import type { PermissionHandler } from './types';
 
+// Bytes used by each kind of storage, keyed by names such as 'fileSystem', 'indexedDB' or 'caches'
+export type StorageUsageDetails = Record<string, number>;
+
+// 'granted' and 'denied' answer every persist() call the same way, a function is asked on each call
+export type PersistHandler = 'granted' | 'denied' | (() => Promise<boolean>);
+
 export interface StorageFactoryOptions extends StorageEstimate {
+  // Usage of other kinds of storage, which counts towards the quota as well. Usage given for 'fileSystem', and the `usage` option, are added to what the mocked file system uses.
+  usageDetails?: StorageUsageDetails;
   queryPermission?: PermissionHandler;
   requestPermission?: PermissionHandler;
+  // Entries the mocked file system is populated with before it's handed out
+  initialTree?: FileSystemTree;
+  // Rules or a predicate deciding which operations fail, and with which error
+  faults?: FaultInjection;
+  // Artificial delay applied to asynchronous operations
+  latency?: Latency;
+  // Journal every operation made on the mocked file system is recorded to
+  journal?: OperationJournal;
+  // When writes made through sync access handles become durable, defaults to 'immediate'
+  durability?: SyncAccessHandleDurability;
+  // Keep what unflushed sync access handle writes overwrote, which simulateCrash({ tearUnflushedWrites: true }) needs to undo them
+  recordUnflushedWrites?: boolean;
+  // Where file contents are kept, defaults to memory
+  backend?: StorageBackend;
+  // Bytes every file and directory adds to usage on top of its content, to get closer to what browsers report for their metadata
+  entryOverhead?: number;
+  // Whether the storage starts out persisted, defaults to true
+  persisted?: boolean;
+  // How persist() calls are answered while the storage isn't persisted, defaults to 'granted'
+  persist?: PersistHandler;
+  // Share of the quota, between 0 and 1, that usage may grow past before storage that isn't persisted is evicted automatically
+  evictionThreshold?: number;
+}
+
+export type { FaultInjection, FaultPredicate, FaultRule } from './faults';
+export type { OperationFilter, OperationOutcome, OperationRecord } from './journal';
+export type { Latency, LatencyRange } from './latency';
+export type {
+  FileContent,
+  FileSystemOperation,
+  FileSystemOperationInfo,
+  FileSystemTree,
+  FileSystemTreeFile,
+  SimulateCrashOptions,
+  StorageBackend,
+  SyncAccessHandleDurability,
+} from './opfs';
+
+export type FileSystemSnapshot = DirectorySnapshot;
+
+export interface MockStorageEstimate extends StorageEstimate {
+  usageDetails: StorageUsageDetails;
+}
+
+export interface MockStorageManager extends StorageManager {
+  estimate(): Promise<MockStorageEstimate>;
+  // Captures a deep copy of the whole mocked file system, including file contents and lastModified
+  snapshot(): FileSystemSnapshot;
+  // Brings the mocked file system back to the captured state, root directory handle is preserved
+  restore(snapshot: FileSystemSnapshot): void;
+  // Drops open writable streams without committing them and closes sync access handles, as if the page was reloaded mid-write
+  simulateCrash(options?: SimulateCrashOptions): void;
+  // Wipes the mocked file system unless it's persisted, returns whether it was evicted
+  simulateEviction(): boolean;
 }
 
-export const storageFactory = ({
-  usage = 0,
-  quota = 1024 ** 3,
-  queryPermission,
-  requestPermission,
-}: StorageFactoryOptions = {}): StorageManager => {
-  const root = fileSystemDirectoryHandleFactory('root', { queryPermission, requestPermission });
+export { FileSystemObserver, memoryBackend, OperationJournal };
+export type { DumpedDirectory, DumpedFile, DumpedFileContent, DumpTreeEncoding, DumpTreeOptions } from './utils';
+export { dumpTree } from './utils';
+
+// Buckets are storage managers of their own, `bucket` is their name
+const createStorageManager = (
+  {
+    usage = 0,
+    usageDetails = {},
+    quota = 1024 ** 3,
+    queryPermission,
+    requestPermission,
+    initialTree,
+    faults,
+    latency,
+    journal,
+    durability,
+    recordUnflushedWrites,
+    backend,
+    entryOverhead,
+    persisted = true,
+    persist = 'granted',
+    evictionThreshold,
+  }: StorageFactoryOptions,
+  bucket?: string,
+): MockStorageManager => {
+  let isPersisted = persisted;
+  let isEvictionPending = false;
+  // Kept up to date as the tree changes, so neither estimate() nor quota checks have to walk it
+  let fileSystemUsage = 0;
+  const staticUsage = Object.values(usageDetails).reduce((total, kindUsage) => total + kindUsage, usage);
+  const context: FileSystemContext = {
+    queryPermission,
+    requestPermission,
+    quota,
+    getUsage: () => staticUsage + fileSystemUsage,
+    onChange: notifyObservers,
+    injectFault: faults ? createFaultInjector(faults) : undefined,
+    getLatency: latency !== undefined ? createLatency(latency) : undefined,
+    journal,
+    durability,
+    recordUnflushedWrites,
+    backend,
+    entryOverhead,
+    bucket,
+    onUsageChange: (delta) => {
+      fileSystemUsage += delta;
+      if (
+        evictionThreshold === undefined ||
+        delta <= 0 ||
+        isEvictionPending ||
+        staticUsage + fileSystemUsage <= evictionThreshold * quota
+      ) {
+        return;
+      }
+      // Browsers evict in the background, so the operation that crossed the threshold completes first
+      isEvictionPending = true;
+      queueMicrotask(() => {
+        isEvictionPending = false;
+        evict();
+      });
+    },
+  };
+  const root = fileSystemDirectoryHandleFactory('root', context);
+
+  const evict = (): boolean => {
+    if (isPersisted) {
+      return false;
+    }
+    evictDirectory(root);
+    return true;
+  };
+  const initialization = initialTree ? populateDirectory(root, initialTree) : Promise.resolve();
 
   return {
-    estimate: async (): Promise<StorageEstimate> => {
-      const defaultUsage = usage;
-      const calculatedUsage = await getSizeOfDirectory(root);
+    estimate: async (): Promise<MockStorageEstimate> => {
+      await initialization;
+      // The predefined usage isn't broken down by kind, it's attributed to the file system so the details add up to `usage`
+      const details = { ...usageDetails, fileSystem: (usageDetails.fileSystem ?? 0) + usage + fileSystemUsage };
 
       return {
-        usage: defaultUsage + calculatedUsage,
+        usage: staticUsage + fileSystemUsage,
         quota,
+        // Like Chromium, kinds of storage that aren't used are left out
+        usageDetails: Object.fromEntries(Object.entries(details).filter(([, kindUsage]) => kindUsage > 0)),
       };
     },
     getDirectory: async (): Promise<FileSystemDirectoryHandle> => {
+      await initialization;
       return root;
     },
     persist: async (): Promise<boolean> => {
-      return true;
+      // Once persisted, storage stays persisted without asking again
+      if (!isPersisted) {
+        isPersisted = persist === 'granted' || (persist !== 'denied' && (await persist()));
+      }
+      return isPersisted;
     },
     persisted: async (): Promise<boolean> => {
-      return true;
+      return isPersisted;
+    },
+    snapshot: (): FileSystemSnapshot => {
+      return snapshotDirectory(root);
+    },
+    restore: (snapshot: FileSystemSnapshot): void => {
+      restoreDirectory(root, snapshot);
     },
+    simulateCrash: (options?: SimulateCrashOptions): void => {
+      crashDirectory(root, options);
+    },
+    simulateEviction: evict,
   };
 };
 
-export const mockOPFS = (): void => {
+export const storageFactory = (options: StorageFactoryOptions = {}): MockStorageManager => {
+  return createStorageManager(options);
+};
+
+// Buckets are created with the options the manager was created with, except for those StorageBucketOptions cover
+export type StorageBucketManagerOptions = Omit<StorageFactoryOptions, 'initialTree' | 'persisted'>;
+
+export interface MockStorageBucket extends StorageBucket, Omit<MockStorageManager, 'estimate' | 'getDirectory' | 'persist' | 'persisted'> {
+  estimate(): Promise<MockStorageEstimate>;
+}
+
+export interface MockStorageBucketManager extends StorageBucketManager {
+  open(name: string, options?: StorageBucketOptions): Promise<MockStorageBucket>;
+}
+
+const assertValidBucketName = (name: string): void => {
+  if (!/^[a-z0-9][a-z0-9_-]{0,63}$/.test(name)) {
+    throw new TypeError(`The bucket name '${name}' is not a valid name.`);
+  }
+};
+
+// Every bucket gets its own root directory and storage manager, so their usage, quota and persistence are independent
+export const storageBucketManagerFactory = (options: StorageBucketManagerOptions = {}): MockStorageBucketManager => {
+  const buckets = new Map<string, MockStorageBucket>();
+
+  return {
+    open: async (name: string, bucketOptions: StorageBucketOptions = {}): Promise<MockStorageBucket> => {
+      assertValidBucketName(name);
+      const existing = buckets.get(name);
+      // Options only apply when the bucket is created
+      if (existing) {
+        return existing;
+      }
+
+      const storage = createStorageManager(
+        { ...options, initialTree: undefined, quota: bucketOptions.quota ?? options.quota, persisted: false },
+        name,
+      );
+      const durability = bucketOptions.durability ?? 'relaxed';
+      let expires = bucketOptions.expires ?? null;
+      const bucket: MockStorageBucket = {
+        ...storage,
+        name,
+        durability: async (): Promise<StorageBucketDurability> => durability,
+        setExpires: async (timestamp: DOMHighResTimeStamp): Promise<void> => {
+          expires = timestamp;
+        },
+        expires: async (): Promise<DOMHighResTimeStamp | null> => expires,
+      };
+      buckets.set(name, bucket);
+
+      // Persistence has to be granted like it does for persist() calls
+      if (bucketOptions.persisted) {
+        await bucket.persist();
+      }
+      return bucket;
+    },
+    keys: async (): Promise<string[]> => {
+      return [...buckets.keys()];
+    },
+    delete: async (name: string): Promise<void> => {
+      assertValidBucketName(name);
+      const bucket = buckets.get(name);
+      if (!bucket) {
+        return;
+      }
+      buckets.delete(name);
+      // Even persisted buckets are wiped, handles into them are left detached
+      evictDirectory(await bucket.getDirectory());
+    },
+  };
+};
+
+const installOnNavigator = (property: 'storage' | 'storageBuckets', value: MockStorageManager | MockStorageBucketManager): void => {
   // Navigator was added to Node.js in v21
   if (!('navigator' in globalThis)) {
     Object.defineProperty(globalThis, 'navigator', {
@@ -46,24 +287,63 @@ export const mockOPFS = (): void => {
     });
   }
 
-  if (!globalThis.navigator.storage) {
-    Object.defineProperty(globalThis.navigator, 'storage', {
-      value: storageFactory(),
-      writable: true,
-    });
+  // Defined on the navigator itself, so it shadows storage managers provided by the environment, e.g. happy-dom's
+  Object.defineProperty(globalThis.navigator, property, {
+    value,
+    writable: true,
+    configurable: true,
+  });
+};
+
+export const mockOPFS = (): void => {
+  // Storage managers without OPFS support are replaced as well
+  if (typeof globalThis.navigator?.storage?.getDirectory !== 'function') {
+    installOnNavigator('storage', storageFactory());
+  }
+  if (typeof globalThis.navigator?.storageBuckets?.open !== 'function') {
+    installOnNavigator('storageBuckets', storageBucketManagerFactory());
+  }
+
+  // Interfaces are exposed globally, so instanceof checks against them work as they do in browsers
+  const interfaces = {
+    FileSystemHandle: MockFileSystemHandle,
+    FileSystemFileHandle: MockFileSystemFileHandle,
+    FileSystemDirectoryHandle: MockFileSystemDirectoryHandle,
+    FileSystemWritableFileStream: MockFileSystemWritableFileStream,
+    FileSystemSyncAccessHandle: MockFileSystemSyncAccessHandle,
+    FileSystemObserver,
+  };
+
+  for (const [name, value] of Object.entries(interfaces)) {
+    if (!(name in globalThis)) {
+      Object.defineProperty(globalThis, name, {
+        value,
+        writable: true,
+      });
+    }
   }
 };
 
+// Replaces the global storage manager, so the root directory, estimate() and every option start fresh.
+// Storage buckets are replaced as well, new buckets are created with the same options.
 export const resetMockOPFS = (options: StorageFactoryOptions = {}): void => {
-  // Clear the mock state, e.g., reset the root directory
-  const root = fileSystemDirectoryHandleFactory('root', {
-    queryPermission: options.queryPermission,
-    requestPermission: options.requestPermission,
-  });
-  Object.defineProperty(globalThis.navigator.storage, 'getDirectory', {
-    value: () => root,
-    writable: true,
-  });
+  installOnNavigator('storage', storageFactory(options));
+  installOnNavigator('storageBuckets', storageBucketManagerFactory(options));
+};
+
+export const snapshotMockOPFS = async (): Promise<FileSystemSnapshot> => {
+  const root = await globalThis.navigator.storage.getDirectory();
+  return snapshotDirectory(root);
+};
+
+export const restoreMockOPFS = async (snapshot: FileSystemSnapshot): Promise<void> => {
+  const root = await globalThis.navigator.storage.getDirectory();
+  restoreDirectory(root, snapshot);
+};
+
+export const simulateCrashMockOPFS = async (options?: SimulateCrashOptions): Promise<void> => {
+  const root = await globalThis.navigator.storage.getDirectory();
+  crashDirectory(root, options);
 };
 
 // Automatically add to globalThis if imported directly
@@ -0,0 +1,50 @@
+import type { FileSystemOperation } from './opfs';
+import { matchesOperation, type OperationMatcher } from './utils';
+
+export type OperationOutcome = 'pending' | 'success' | 'error';
+
+export interface OperationRecord {
+  operation: FileSystemOperation;
+  // Path of the entry relative to the root directory at the time of the call
+  path: string;
+  // Name of the storage bucket the entry belongs to, left out for navigator.storage and other storage managers
+  bucket?: string;
+  args: unknown[];
+  // Bytes read, written or committed, for operations that transfer data
+  bytes?: number;
+  timestamp: number;
+  outcome: OperationOutcome;
+  error?: unknown;
+}
+
+export interface OperationFilter extends OperationMatcher {
+  outcome?: OperationOutcome;
+  bucket?: string;
+}
+
+// Records every call made on handles, writable streams and sync access handles of the storage it's passed to
+export class OperationJournal {
+  private records: OperationRecord[] = [];
+
+  record(record: OperationRecord): OperationRecord {
+    this.records.push(record);
+    return record;
+  }
+
+  getRecords(filter: OperationFilter = {}): OperationRecord[] {
+    return this.records.filter(
+      (record) =>
+        matchesOperation(filter, record) &&
+        (filter.outcome === undefined || filter.outcome === record.outcome) &&
+        (filter.bucket === undefined || filter.bucket === record.bucket),
+    );
+  }
+
+  count(filter: OperationFilter = {}): number {
+    return this.getRecords(filter).length;
+  }
+
+  clear(): void {
+    this.records = [];
+  }
+}
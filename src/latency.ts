@@ -0,0 +1,42 @@
+import type { FileSystemOperationInfo } from './opfs';
+
+export interface LatencyRange {
+  min: number;
+  max: number;
+  // Seed for the random number generator, so delays are reproducible between runs
+  seed?: number;
+}
+
+// Delays are in milliseconds
+export type Latency = number | LatencyRange | ((info: FileSystemOperationInfo) => number);
+
+// Mulberry32, small seedable PRNG returning numbers between 0 and 1
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Returns a function that decides how long each operation is delayed for
+export const createLatency = (latency: Latency): ((info: FileSystemOperationInfo) => number) => {
+  if (typeof latency === 'number') {
+    return () => latency;
+  }
+  if (typeof latency === 'function') {
+    return latency;
+  }
+
+  const { min, max, seed } = latency;
+  const random = seed === undefined ? Math.random : createRandom(seed);
+  return () => min + random() * (max - min);
+};
+
+// Looks up setTimeout at call time, so fake timers installed after the mock are respected
+export const sleep = (delay: number): Promise<void> => {
+  return new Promise((resolve) => setTimeout(resolve, delay));
+};
@@ -0,0 +1,141 @@
+import { type EntryLocation, type FileSystemChange, getEntryLocation } from './opfs';
+
+interface ObserverState {
+  callback: FileSystemObserverCallback;
+  // Observed handles mapped to whether they are observed recursively
+  observations: Map<FileSystemHandle, boolean>;
+  pendingRecords: FileSystemChangeRecord[];
+  isFlushScheduled: boolean;
+}
+
+const observerStates = new Map<FileSystemObserver, ObserverState>();
+
+// Returns the path of a location relative to the observed handle, or undefined if the location is outside the observed scope
+const getRelativePath = (observed: FileSystemHandle, recursive: boolean, location?: EntryLocation): string[] | undefined => {
+  const index = location?.findIndex(({ handle }) => handle === observed) ?? -1;
+  if (!location || index === -1) {
+    return undefined;
+  }
+
+  const relativePathComponents = location.slice(index + 1).map(({ name }) => name);
+
+  if (observed.kind === 'file' && relativePathComponents.length > 0) {
+    return undefined;
+  }
+  if (!recursive && relativePathComponents.length > 1) {
+    return undefined;
+  }
+
+  return relativePathComponents;
+};
+
+const getRecordsForObservation = (observed: FileSystemHandle, recursive: boolean, change: FileSystemChange): FileSystemChangeRecord[] => {
+  const { type, changedHandle, location, movedFrom } = change;
+  const relativePathComponents = getRelativePath(observed, recursive, location);
+  const records: FileSystemChangeRecord[] = [];
+
+  if (type === 'moved') {
+    const relativePathMovedFrom = getRelativePath(observed, recursive, movedFrom);
+
+    // Moves across the boundary of the observed scope are reported as the entry appearing or disappearing
+    if (relativePathComponents && relativePathMovedFrom) {
+      records.push({ type, root: observed, changedHandle, relativePathComponents, relativePathMovedFrom });
+    } else if (relativePathComponents) {
+      records.push({ type: 'appeared', root: observed, changedHandle, relativePathComponents, relativePathMovedFrom: null });
+    } else if (relativePathMovedFrom) {
+      records.push({
+        type: 'disappeared',
+        root: observed,
+        changedHandle,
+        relativePathComponents: relativePathMovedFrom,
+        relativePathMovedFrom: null,
+      });
+    }
+    return records;
+  }
+
+  if (relativePathComponents) {
+    records.push({ type, root: observed, changedHandle, relativePathComponents, relativePathMovedFrom: null });
+  }
+
+  // Removing the observed handle (or one of its ancestors) ends the observation
+  if (type === 'disappeared' && getEntryLocation(observed)?.some(({ handle }) => handle === changedHandle)) {
+    records.push({ type: 'errored', root: observed, changedHandle: observed, relativePathComponents: [], relativePathMovedFrom: null });
+  }
+
+  return records;
+};
+
+const scheduleFlush = (observer: FileSystemObserver, state: ObserverState): void => {
+  if (state.isFlushScheduled) {
+    return;
+  }
+  state.isFlushScheduled = true;
+
+  // Records are delivered in batches, after the operations that caused them have completed
+  queueMicrotask(() => {
+    const records = state.pendingRecords;
+    state.pendingRecords = [];
+    state.isFlushScheduled = false;
+
+    if (records.length > 0 && observerStates.get(observer) === state) {
+      state.callback(records, observer);
+    }
+  });
+};
+
+export const notifyObservers = (change: FileSystemChange): void => {
+  for (const [observer, state] of observerStates) {
+    for (const [observed, recursive] of state.observations) {
+      const records = getRecordsForObservation(observed, recursive, change);
+      if (records.length === 0) {
+        continue;
+      }
+
+      state.pendingRecords.push(...records);
+      if (records.some(({ type }) => type === 'errored')) {
+        state.observations.delete(observed);
+      }
+      scheduleFlush(observer, state);
+    }
+  }
+};
+
+export class FileSystemObserver {
+  private readonly callback: FileSystemObserverCallback;
+
+  constructor(callback: FileSystemObserverCallback) {
+    if (typeof callback !== 'function') {
+      throw new TypeError('The callback provided as parameter 1 is not a function.');
+    }
+    this.callback = callback;
+  }
+
+  async observe(handle: FileSystemHandle, options?: FileSystemObserverObserveOptions): Promise<void> {
+    if (!getEntryLocation(handle)) {
+      throw new DOMException('A requested file or directory could not be found at the time an operation was processed.', 'NotFoundError');
+    }
+    if ((await (handle as FileSystemFileHandle | FileSystemDirectoryHandle).queryPermission({ mode: 'read' })) !== 'granted') {
+      throw new DOMException('Permission denied', 'NotAllowedError');
+    }
+
+    let state = observerStates.get(this);
+    if (!state) {
+      state = { callback: this.callback, observations: new Map(), pendingRecords: [], isFlushScheduled: false };
+      observerStates.set(this, state);
+    }
+    state.observations.set(handle, options?.recursive ?? false);
+  }
+
+  unobserve(handle: FileSystemHandle): void {
+    const state = observerStates.get(this);
+    state?.observations.delete(handle);
+    if (state?.observations.size === 0) {
+      observerStates.delete(this);
+    }
+  }
+
+  disconnect(): void {
+    observerStates.delete(this);
+  }
+}
@@ -0,0 +1,69 @@
+import { bench, describe } from 'vitest';
+import { type FileContent, memoryBackend, type StorageBackend, storageFactory } from './index';
+
+// Reallocates the content to its exact size whenever it grows, which is how file contents used to be stored
+class ExactFileContent implements FileContent {
+  private bytes: Uint8Array;
+
+  constructor(bytes: Uint8Array = new Uint8Array()) {
+    this.bytes = bytes;
+  }
+
+  size(): number {
+    return this.bytes.length;
+  }
+
+  read(at: number, length: number): Uint8Array {
+    return this.bytes.slice(at, at + length);
+  }
+
+  write(at: number, data: Uint8Array): void {
+    this.truncate(Math.max(this.bytes.length, at + data.length));
+    this.bytes.set(data, at);
+  }
+
+  truncate(size: number): void {
+    const resized = new Uint8Array(size);
+    resized.set(this.bytes.subarray(0, size));
+    this.bytes = resized;
+  }
+
+  snapshot(): Uint8Array {
+    return this.bytes.slice();
+  }
+}
+
+const exactBackend: StorageBackend = {
+  create: (_name, source) => new ExactFileContent(source?.snapshot()),
+};
+
+const records = 5000;
+const record = new TextEncoder().encode(`${'log record '.repeat(6)}\n`);
+
+const appendWithWritable = async (backend: StorageBackend): Promise<void> => {
+  const root = await storageFactory({ backend }).getDirectory();
+  const writable = await (await root.getFileHandle('log.txt', { create: true })).createWritable();
+  for (let i = 0; i < records; i++) {
+    await writable.write(record);
+  }
+  await writable.close();
+};
+
+const appendWithSyncAccessHandle = async (backend: StorageBackend): Promise<void> => {
+  const root = await storageFactory({ backend }).getDirectory();
+  const syncHandle = await (await root.getFileHandle('log.txt', { create: true })).createSyncAccessHandle();
+  for (let i = 0; i < records; i++) {
+    syncHandle.write(record, { at: i * record.length });
+  }
+  syncHandle.close();
+};
+
+describe(`appending ${records} records through a writable stream`, () => {
+  bench('memory backend', () => appendWithWritable(memoryBackend));
+  bench('exact growth', () => appendWithWritable(exactBackend));
+});
+
+describe(`appending ${records} records through a sync access handle`, () => {
+  bench('memory backend', () => appendWithSyncAccessHandle(memoryBackend));
+  bench('exact growth', () => appendWithSyncAccessHandle(exactBackend));
+});
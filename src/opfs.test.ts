@@ -1,5 +1,21 @@
-import { beforeEach, describe, expect, test } from 'vitest';
-import { resetMockOPFS, storageFactory } from './index';
+import { readdirSync, readFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import { createDiskBackend } from './disk';
+import {
+  dumpTree,
+  type FileContent,
+  FileSystemObserver,
+  memoryBackend,
+  OperationJournal,
+  resetMockOPFS,
+  restoreMockOPFS,
+  type StorageBackend,
+  simulateCrashMockOPFS,
+  snapshotMockOPFS,
+  storageBucketManagerFactory,
+  storageFactory,
+} from './index';
 
 describe('OPFS', () => {
   beforeEach(() => {
@@ -45,6 +61,7 @@ describe('OPFS', () => {
     const fileHandle = await rootDirectory.getFileHandle('testFileToRemove.txt', { create: true });
     const writeHandle = await fileHandle.createWritable();
     await writeHandle.write(new TextEncoder().encode('This will be removed'));
+    await writeHandle.close();
 
     await rootDirectory.removeEntry('testFileToRemove.txt');
 
@@ -1240,7 +1257,7 @@ describe('OPFS', () => {
     const fh = await root.getFileHandle('lock.txt', { create: true });
     const h1 = await fh.createSyncAccessHandle();
     await expect(fh.createSyncAccessHandle()).rejects.toThrowError(
-      new DOMException('A sync access handle is already open for this file', 'InvalidStateError'),
+      new DOMException('A sync access handle is already open for this file', 'NoModificationAllowedError'),
     );
     h1.close();
     // Can open again after close
@@ -1688,4 +1705,1957 @@ describe('OPFS', () => {
     const root = await navigator.storage.getDirectory();
     expect(await root.queryPermission()).toBe('denied');
   });
+
+  test('createWritable close rejects with QuotaExceededError when quota would be exceeded', async () => {
+    const storage = storageFactory({ usage: 5, quota: 10 });
+    const root = await storage.getDirectory();
+    const fh = await root.getFileHandle('quota.txt', { create: true });
+
+    const ws1 = await fh.createWritable();
+    await ws1.write('abcde');
+    await ws1.close();
+
+    const ws2 = await fh.createWritable();
+    await ws2.write('abcdef');
+    await expect(ws2.close()).rejects.toThrowError(
+      new DOMException('The operation failed because it would exceed the storage quota.', 'QuotaExceededError'),
+    );
+
+    // Original content is left untouched
+    const file = await fh.getFile();
+    expect(await file.text()).toBe('abcde');
+  });
+
+  test('quota counts the size a file already has when overwriting it', async () => {
+    const storage = storageFactory({ quota: 4 });
+    const root = await storage.getDirectory();
+    const fh = await root.getFileHandle('overwrite.txt', { create: true });
+
+    const ws1 = await fh.createWritable();
+    await ws1.write('1234');
+    await ws1.close();
+
+    const ws2 = await fh.createWritable();
+    await ws2.write('abcd');
+    await expect(ws2.close()).resolves.toBeUndefined();
+  });
+
+  test('sync access handle write and truncate reject with QuotaExceededError when quota would be exceeded', async () => {
+    const storage = storageFactory({ quota: 8 });
+    const root = await storage.getDirectory();
+    const dir = await root.getDirectoryHandle('nested', { create: true });
+    const other = await dir.getFileHandle('other.bin', { create: true });
+    const otherWs = await other.createWritable();
+    await otherWs.write(new Uint8Array(4));
+    await otherWs.close();
+
+    const fh = await root.getFileHandle('sync.bin', { create: true });
+    const handle = await fh.createSyncAccessHandle();
+
+    expect(handle.write(new Uint8Array([1, 2, 3, 4]))).toBe(4);
+    expect(() => handle.write(new Uint8Array([5]), { at: 4 })).toThrowError(
+      new DOMException('The operation failed because it would exceed the storage quota.', 'QuotaExceededError'),
+    );
+    expect(() => handle.truncate(5)).toThrowError(
+      new DOMException('The operation failed because it would exceed the storage quota.', 'QuotaExceededError'),
+    );
+
+    // Overwriting and shrinking do not require additional quota
+    expect(handle.write(new Uint8Array([9]), { at: 0 })).toBe(1);
+    handle.truncate(2);
+    expect(handle.getSize()).toBe(2);
+    await handle.close();
+  });
+
+  test('move(newName) renames a file within its directory', async () => {
+    const root = await navigator.storage.getDirectory();
+    const fh = await root.getFileHandle('temp.txt', { create: true });
+    const ws = await fh.createWritable();
+    await ws.write('data');
+    await ws.close();
+
+    await fh.move('final.txt');
+
+    expect(fh.name).toBe('final.txt');
+    await expect(root.getFileHandle('temp.txt')).rejects.toThrowError(new DOMException('File not found: temp.txt', 'NotFoundError'));
+    expect(await root.getFileHandle('final.txt')).toBe(fh);
+
+    const file = await fh.getFile();
+    expect(file.name).toBe('final.txt');
+    expect(await file.text()).toBe('data');
+  });
+
+  test('move() replaces an existing file at the destination', async () => {
+    const root = await navigator.storage.getDirectory();
+    const target = await root.getFileHandle('data.json', { create: true });
+    const targetWs = await target.createWritable();
+    await targetWs.write('old');
+    await targetWs.close();
+
+    const temp = await root.getFileHandle('data.json.tmp', { create: true });
+    const tempWs = await temp.createWritable();
+    await tempWs.write('new');
+    await tempWs.close();
+
+    await temp.move('data.json');
+
+    const keys: string[] = [];
+    for await (const key of root.keys()) keys.push(key);
+    expect(keys).toEqual(['data.json']);
+    expect(await (await (await root.getFileHandle('data.json')).getFile()).text()).toBe('new');
+    await expect(target.getFile()).rejects.toHaveProperty('name', 'NotFoundError');
+  });
+
+  test('move(destination, newName) relocates files and directories', async () => {
+    const root = await navigator.storage.getDirectory();
+    const src = await root.getDirectoryHandle('src', { create: true });
+    const dest = await root.getDirectoryHandle('dest', { create: true });
+    const fh = await src.getFileHandle('a.txt', { create: true });
+    const nested = await src.getDirectoryHandle('nested', { create: true });
+    const nestedFile = await nested.getFileHandle('deep.txt', { create: true });
+
+    await fh.move(dest);
+    expect(fh.name).toBe('a.txt');
+    expect(await root.resolve(fh)).toEqual(['dest', 'a.txt']);
+
+    await nested.move(dest, 'renamed');
+    expect(nested.name).toBe('renamed');
+    expect(await root.resolve(nestedFile)).toEqual(['dest', 'renamed', 'deep.txt']);
+
+    const srcKeys: string[] = [];
+    for await (const key of src.keys()) srcKeys.push(key);
+    expect(srcKeys).toEqual([]);
+
+    const destKeys: string[] = [];
+    for await (const key of dest.keys()) destKeys.push(key);
+    expect(destKeys).toEqual(['a.txt', 'renamed']);
+  });
+
+  test('move() rejects name collisions with directories', async () => {
+    const root = await navigator.storage.getDirectory();
+    const fh = await root.getFileHandle('file', { create: true });
+    const dir = await root.getDirectoryHandle('dir', { create: true });
+    const other = await root.getDirectoryHandle('other', { create: true });
+
+    await expect(fh.move('dir')).rejects.toThrowError(
+      new DOMException('An entry with the same name already exists: dir', 'InvalidModificationError'),
+    );
+    await expect(dir.move('file')).rejects.toThrowError(
+      new DOMException('An entry with the same name already exists: file', 'InvalidModificationError'),
+    );
+    await expect(dir.move('other')).rejects.toThrowError(
+      new DOMException('An entry with the same name already exists: other', 'InvalidModificationError'),
+    );
+    expect(other.name).toBe('other');
+  });
+
+  test('move() rejects moving a directory into itself or a descendant', async () => {
+    const root = await navigator.storage.getDirectory();
+    const parent = await root.getDirectoryHandle('parent', { create: true });
+    const child = await parent.getDirectoryHandle('child', { create: true });
+
+    await expect(parent.move(parent)).rejects.toThrowError(
+      new DOMException('A directory cannot be moved into itself or one of its descendants.', 'InvalidModificationError'),
+    );
+    await expect(parent.move(child)).rejects.toThrowError(
+      new DOMException('A directory cannot be moved into itself or one of its descendants.', 'InvalidModificationError'),
+    );
+  });
+
+  test('move() rejects moving the root directory and removed entries', async () => {
+    const root = await navigator.storage.getDirectory();
+    const dir = await root.getDirectoryHandle('dir', { create: true });
+
+    await expect(root.move(dir)).rejects.toThrowError(new DOMException('The root directory cannot be moved.', 'InvalidModificationError'));
+
+    const fh = await root.getFileHandle('gone.txt', { create: true });
+    await root.removeEntry('gone.txt');
+    await expect(fh.move('back.txt')).rejects.toHaveProperty('name', 'NotFoundError');
+  });
+
+  test('move() rejects destinations that were removed', async () => {
+    const root = await navigator.storage.getDirectory();
+    const fh = await root.getFileHandle('file.txt', { create: true });
+    const removed = await root.getDirectoryHandle('removed', { create: true });
+    const nested = await removed.getDirectoryHandle('nested', { create: true });
+    await root.removeEntry('removed', { recursive: true });
+
+    await expect(fh.move(removed)).rejects.toHaveProperty('name', 'NotFoundError');
+    await expect(fh.move(nested, 'moved.txt')).rejects.toHaveProperty('name', 'NotFoundError');
+    expect(await dumpTree(root)).toStrictEqual({ 'file.txt': '' });
+  });
+
+  test('move() requires readwrite permission', async () => {
+    let mode: 'read' | 'readwrite' = 'readwrite';
+    resetMockOPFS({
+      queryPermission: async (desc) => (desc?.mode === 'readwrite' && mode === 'read' ? 'denied' : 'granted'),
+    });
+    const root = await navigator.storage.getDirectory();
+    const fh = await root.getFileHandle('perm.txt', { create: true });
+
+    mode = 'read';
+    await expect(fh.move('renamed.txt')).rejects.toThrow(/Permission denied/);
+    expect(fh.name).toBe('perm.txt');
+  });
+
+  test('name-taking directory methods reject invalid names with TypeError', async () => {
+    const root = await navigator.storage.getDirectory();
+    const invalidNames = ['', '.', '..', 'a/b', 'a\\b', '/', '\\'];
+
+    for (const invalidName of invalidNames) {
+      await expect(root.getFileHandle(invalidName, { create: true })).rejects.toThrowError(
+        new TypeError(`Name is not allowed: ${invalidName}`),
+      );
+      await expect(root.getDirectoryHandle(invalidName, { create: true })).rejects.toThrowError(
+        new TypeError(`Name is not allowed: ${invalidName}`),
+      );
+      await expect(root.removeEntry(invalidName)).rejects.toThrowError(new TypeError(`Name is not allowed: ${invalidName}`));
+    }
+
+    const keys: string[] = [];
+    for await (const key of root.keys()) keys.push(key);
+    expect(keys).toEqual([]);
+  });
+
+  test('names resembling paths are allowed when they are not separators or dot segments', async () => {
+    const root = await navigator.storage.getDirectory();
+    await expect(root.getFileHandle('...', { create: true })).resolves.toBeDefined();
+    await expect(root.getFileHandle('.hidden', { create: true })).resolves.toBeDefined();
+    await expect(root.getDirectoryHandle('a..b', { create: true })).resolves.toBeDefined();
+  });
+
+  test('move() rejects invalid names with TypeError', async () => {
+    const root = await navigator.storage.getDirectory();
+    const dir = await root.getDirectoryHandle('dir', { create: true });
+    const fh = await root.getFileHandle('f.txt', { create: true });
+
+    await expect(fh.move('..')).rejects.toThrowError(new TypeError('Name is not allowed: ..'));
+    await expect(fh.move(dir, 'x/y')).rejects.toThrowError(new TypeError('Name is not allowed: x/y'));
+    expect(fh.name).toBe('f.txt');
+  });
+
+  test('FileSystemObserver is installed on globalThis', () => {
+    expect(globalThis.FileSystemObserver).toBe(FileSystemObserver);
+  });
+
+  test('FileSystemObserver reports appeared, modified and disappeared records in batches', async () => {
+    const root = await navigator.storage.getDirectory();
+    const batches: FileSystemChangeRecord[][] = [];
+    const observer = new FileSystemObserver((records) => batches.push(records));
+    await observer.observe(root);
+
+    const fh = await root.getFileHandle('observed.txt', { create: true });
+    const ws = await fh.createWritable();
+    await ws.write('data');
+    await ws.close();
+    await root.removeEntry('observed.txt');
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const records = batches.flat();
+    expect(records.map(({ type }) => type)).toEqual(['appeared', 'modified', 'disappeared']);
+    for (const record of records) {
+      expect(record.root).toBe(root);
+      expect(record.changedHandle).toBe(fh);
+      expect(record.relativePathComponents).toEqual(['observed.txt']);
+      expect(record.relativePathMovedFrom).toBeNull();
+    }
+    observer.disconnect();
+  });
+
+  test('FileSystemObserver delivers synchronous sync access handle changes as a single batch', async () => {
+    const root = await navigator.storage.getDirectory();
+    const fh = await root.getFileHandle('sync.bin', { create: true });
+    const batches: FileSystemChangeRecord[][] = [];
+    const observer = new FileSystemObserver((records) => batches.push(records));
+    await observer.observe(fh);
+
+    const handle = await fh.createSyncAccessHandle();
+    handle.write(new Uint8Array([1, 2, 3]));
+    handle.truncate(1);
+    expect(batches).toEqual([]);
+    await handle.close();
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(batches).toHaveLength(1);
+    expect(batches[0].map(({ type, relativePathComponents }) => [type, relativePathComponents])).toEqual([
+      ['modified', []],
+      ['modified', []],
+    ]);
+    observer.disconnect();
+  });
+
+  test('FileSystemObserver only reports nested changes when observing recursively', async () => {
+    const root = await navigator.storage.getDirectory();
+    const dir = await root.getDirectoryHandle('dir', { create: true });
+    const shallow: FileSystemChangeRecord[] = [];
+    const deep: FileSystemChangeRecord[] = [];
+    const shallowObserver = new FileSystemObserver((records) => shallow.push(...records));
+    const deepObserver = new FileSystemObserver((records) => deep.push(...records));
+    await shallowObserver.observe(root);
+    await deepObserver.observe(root, { recursive: true });
+
+    await dir.getFileHandle('nested.txt', { create: true });
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(shallow).toEqual([]);
+    expect(deep.map(({ type, relativePathComponents }) => [type, relativePathComponents])).toEqual([['appeared', ['dir', 'nested.txt']]]);
+    shallowObserver.disconnect();
+    deepObserver.disconnect();
+  });
+
+  test('FileSystemObserver reports moves within and across the observed scope', async () => {
+    const root = await navigator.storage.getDirectory();
+    const inside = await root.getDirectoryHandle('inside', { create: true });
+    const outside = await root.getDirectoryHandle('outside', { create: true });
+    const fh = await inside.getFileHandle('a.txt', { create: true });
+    const records: FileSystemChangeRecord[] = [];
+    const observer = new FileSystemObserver((batch) => records.push(...batch));
+    await observer.observe(inside);
+
+    await fh.move('b.txt');
+    await fh.move(outside);
+    await fh.move(inside, 'c.txt');
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(
+      records.map(({ type, relativePathComponents, relativePathMovedFrom }) => [type, relativePathComponents, relativePathMovedFrom]),
+    ).toEqual([
+      ['moved', ['b.txt'], ['a.txt']],
+      ['disappeared', ['b.txt'], null],
+      ['appeared', ['c.txt'], null],
+    ]);
+    observer.disconnect();
+  });
+
+  test('FileSystemObserver reports errored and stops observing when the observed handle is removed', async () => {
+    const root = await navigator.storage.getDirectory();
+    const parent = await root.getDirectoryHandle('parent', { create: true });
+    const child = await parent.getDirectoryHandle('child', { create: true });
+    const records: FileSystemChangeRecord[] = [];
+    const observer = new FileSystemObserver((batch) => records.push(...batch));
+    await observer.observe(child);
+
+    await root.removeEntry('parent', { recursive: true });
+    await expect(child.getFileHandle('after.txt', { create: true })).rejects.toThrow(expect.objectContaining({ name: 'NotFoundError' }));
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(records.map(({ type, root: observedRoot }) => [type, observedRoot])).toEqual([['errored', child]]);
+  });
+
+  test('FileSystemObserver stops delivering records after unobserve() and disconnect()', async () => {
+    const root = await navigator.storage.getDirectory();
+    const records: FileSystemChangeRecord[] = [];
+    const observer = new FileSystemObserver((batch) => records.push(...batch));
+
+    await observer.observe(root);
+    observer.unobserve(root);
+    await root.getFileHandle('a.txt', { create: true });
+
+    const fh = await root.getFileHandle('b.txt', { create: true });
+    const handle = await fh.createSyncAccessHandle();
+    await observer.observe(fh);
+    handle.write(new Uint8Array([1]));
+    observer.disconnect();
+    await handle.close();
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(records).toEqual([]);
+  });
+
+  test('FileSystemObserver.observe() rejects for removed handles', async () => {
+    const root = await navigator.storage.getDirectory();
+    const fh = await root.getFileHandle('gone.txt', { create: true });
+    await fh.remove();
+
+    const observer = new FileSystemObserver(() => {});
+    await expect(observer.observe(fh)).rejects.toHaveProperty('name', 'NotFoundError');
+  });
+
+  test('storage.snapshot() and restore() roll the tree back to the captured state', async () => {
+    const storage = storageFactory();
+    const root = await storage.getDirectory();
+    const dir = await root.getDirectoryHandle('fixtures', { create: true });
+    const fh = await dir.getFileHandle('data.txt', { create: true });
+    const ws = await fh.createWritable();
+    await ws.write('fixture');
+    await ws.close();
+    const { lastModified } = await fh.getFile();
+
+    const snapshot = storage.snapshot();
+
+    const changed = await dir.getFileHandle('data.txt');
+    const changedWs = await changed.createWritable();
+    await changedWs.write('changed');
+    await changedWs.close();
+    await root.getFileHandle('extra.txt', { create: true });
+
+    storage.restore(snapshot);
+
+    expect(await storage.getDirectory()).toBe(root);
+    const keys: string[] = [];
+    for await (const key of root.keys()) keys.push(key);
+    expect(keys).toEqual(['fixtures']);
+
+    const restoredFile = await (await (await root.getDirectoryHandle('fixtures')).getFileHandle('data.txt')).getFile();
+    expect(await restoredFile.text()).toBe('fixture');
+    expect(restoredFile.lastModified).toBe(lastModified);
+  });
+
+  test('snapshots are deep copies that can be restored multiple times', async () => {
+    const storage = storageFactory();
+    const root = await storage.getDirectory();
+    const fh = await root.getFileHandle('file.bin', { create: true });
+    const handle = await fh.createSyncAccessHandle();
+    handle.write(new Uint8Array([1, 2, 3]));
+
+    const snapshot = storage.snapshot();
+    handle.write(new Uint8Array([9]), { at: 0 });
+    await handle.close();
+
+    for (let i = 0; i < 2; i++) {
+      storage.restore(snapshot);
+      const restored = await root.getFileHandle('file.bin');
+      expect(restored).not.toBe(fh);
+      expect(new Uint8Array(await (await restored.getFile()).arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+
+      const restoredHandle = await restored.createSyncAccessHandle();
+      restoredHandle.write(new Uint8Array([7]), { at: 0 });
+      await restoredHandle.close();
+    }
+
+    // Handles obtained before restoring are detached
+    await expect(fh.getFile()).rejects.toHaveProperty('name', 'NotFoundError');
+  });
+
+  test('snapshotMockOPFS and restoreMockOPFS operate on the global mock', async () => {
+    const root = await navigator.storage.getDirectory();
+    await root.getFileHandle('fixture.txt', { create: true });
+    const snapshot = await snapshotMockOPFS();
+
+    await root.removeEntry('fixture.txt');
+    await root.getDirectoryHandle('temp', { create: true });
+    await restoreMockOPFS(snapshot);
+
+    expect(await navigator.storage.getDirectory()).toBe(root);
+    const keys: string[] = [];
+    for await (const key of root.keys()) keys.push(key);
+    expect(keys).toEqual(['fixture.txt']);
+  });
+
+  test('storageFactory populates the mock from initialTree', async () => {
+    const storage = storageFactory({
+      initialTree: {
+        'readme.txt': 'Hello',
+        'data.bin': new Uint8Array([1, 2, 3]),
+        'blob.txt': new Blob(['From blob']),
+        'old.txt': { content: 'Old', lastModified: 1000 },
+        nested: {
+          deeper: {
+            'leaf.txt': 'Leaf',
+          },
+          empty: {},
+        },
+      },
+    });
+    const root = await storage.getDirectory();
+
+    const keys: string[] = [];
+    for await (const key of root.keys()) keys.push(key);
+    expect(keys).toEqual(['readme.txt', 'data.bin', 'blob.txt', 'old.txt', 'nested']);
+
+    expect(await (await (await root.getFileHandle('readme.txt')).getFile()).text()).toBe('Hello');
+    expect(new Uint8Array(await (await (await root.getFileHandle('data.bin')).getFile()).arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+    expect(await (await (await root.getFileHandle('blob.txt')).getFile()).text()).toBe('From blob');
+
+    const old = await (await root.getFileHandle('old.txt')).getFile();
+    expect(await old.text()).toBe('Old');
+    expect(old.lastModified).toBe(1000);
+
+    const nested = await root.getDirectoryHandle('nested');
+    const leaf = await (await nested.getDirectoryHandle('deeper')).getFileHandle('leaf.txt');
+    expect(await (await leaf.getFile()).text()).toBe('Leaf');
+    expect(await root.resolve(leaf)).toEqual(['nested', 'deeper', 'leaf.txt']);
+    await expect(nested.getDirectoryHandle('empty')).resolves.toBeDefined();
+
+    expect((await storage.estimate()).usage).toBe(5 + 3 + 9 + 3 + 4);
+  });
+
+  test('initialTree entries named like file descriptor fields are still directories', async () => {
+    const storage = storageFactory({
+      initialTree: {
+        dir: { content: 'not a descriptor' },
+      },
+    });
+    const root = await storage.getDirectory();
+    const dir = await root.getDirectoryHandle('dir');
+    expect(await (await (await dir.getFileHandle('content')).getFile()).text()).toBe('not a descriptor');
+  });
+
+  test('initialTree rejects invalid entry names', () => {
+    expect(() => storageFactory({ initialTree: { 'a/b': 'x' } })).toThrowError(new TypeError('Name is not allowed: a/b'));
+  });
+
+  test('resetMockOPFS accepts initialTree', async () => {
+    resetMockOPFS({ initialTree: { 'seeded.txt': new Blob(['seeded']) } });
+    const root = await navigator.storage.getDirectory();
+    expect(await (await (await root.getFileHandle('seeded.txt')).getFile()).text()).toBe('seeded');
+  });
+
+  test('dumpTree returns a nested object of names to utf8 contents', async () => {
+    const storage = storageFactory({
+      initialTree: {
+        'a.txt': 'A',
+        dir: {
+          'b.txt': 'B',
+          empty: {},
+        },
+      },
+    });
+    const root = await storage.getDirectory();
+
+    const tree = await dumpTree(root);
+    expect(tree).toEqual({
+      'a.txt': 'A',
+      dir: {
+        'b.txt': 'B',
+        empty: {},
+      },
+    });
+    expect(JSON.parse(JSON.stringify(tree))).toEqual(tree);
+  });
+
+  test('dumpTree supports base64 and bytes encodings', async () => {
+    const storage = storageFactory({ initialTree: { 'bin.dat': new Uint8Array([0, 255, 72, 105]) } });
+    const root = await storage.getDirectory();
+
+    expect(await dumpTree(root, { encoding: 'bytes' })).toEqual({ 'bin.dat': [0, 255, 72, 105] });
+    expect(await dumpTree(root, { encoding: 'base64' })).toEqual({ 'bin.dat': 'AP9IaQ==' });
+  });
+
+  test('dumpTree includes size and lastModified metadata when requested', async () => {
+    const storage = storageFactory({
+      initialTree: {
+        'a.txt': { content: 'Hello', lastModified: 1234 },
+        dir: { 'b.txt': { content: 'Hi', lastModified: 5678 } },
+      },
+    });
+    const root = await storage.getDirectory();
+
+    expect(await dumpTree(root, { size: true, lastModified: true })).toEqual({
+      'a.txt': { content: 'Hello', size: 5, lastModified: 1234 },
+      dir: { 'b.txt': { content: 'Hi', size: 2, lastModified: 5678 } },
+    });
+    expect(await dumpTree(root, { size: true })).toEqual({
+      'a.txt': { content: 'Hello', size: 5 },
+      dir: { 'b.txt': { content: 'Hi', size: 2 } },
+    });
+  });
+
+  test('faults rules reject matching operations with a DOMException of the given name', async () => {
+    const storage = storageFactory({
+      initialTree: { dir: { 'a.txt': 'A' }, 'b.txt': 'B' },
+      faults: [{ operation: 'getFile', path: 'dir/a.txt', error: 'NotReadableError' }],
+    });
+    const root = await storage.getDirectory();
+    const a = await (await root.getDirectoryHandle('dir')).getFileHandle('a.txt');
+    const b = await root.getFileHandle('b.txt');
+
+    await expect(a.getFile()).rejects.toThrowError(new DOMException("Injected fault in getFile at 'dir/a.txt'", 'NotReadableError'));
+    await expect(b.getFile()).resolves.toBeDefined();
+  });
+
+  test('faults rules can fail only the Nth matching call', async () => {
+    const storage = storageFactory({
+      faults: [{ operation: 'createWritable', nth: 2, error: new DOMException('Disk is busy', 'NoModificationAllowedError') }],
+    });
+    const root = await storage.getDirectory();
+    const fh = await root.getFileHandle('f.txt', { create: true });
+
+    await expect(fh.createWritable()).resolves.toBeDefined();
+    await expect(fh.createWritable()).rejects.toThrowError(new DOMException('Disk is busy', 'NoModificationAllowedError'));
+    await expect(fh.createWritable()).resolves.toBeDefined();
+  });
+
+  test('faults rules can fail with a probability', async () => {
+    const rolls = [0.9, 0.1];
+    const storage = storageFactory({
+      faults: [
+        { operation: ['getFileHandle', 'getDirectoryHandle'], probability: 0.5, random: () => rolls.shift() ?? 1, error: 'UnknownError' },
+      ],
+    });
+    const root = await storage.getDirectory();
+
+    await expect(root.getFileHandle('a.txt', { create: true })).resolves.toBeDefined();
+    await expect(root.getDirectoryHandle('b', { create: true })).rejects.toHaveProperty('name', 'UnknownError');
+    await expect(root.getDirectoryHandle('b')).rejects.toHaveProperty('name', 'NotFoundError');
+  });
+
+  test('faults can fail writable close and leave the file untouched', async () => {
+    const storage = storageFactory({
+      initialTree: { 'data.txt': 'original' },
+      faults: [{ operation: 'writable.close', error: 'InvalidStateError' }],
+    });
+    const root = await storage.getDirectory();
+    const fh = await root.getFileHandle('data.txt');
+    const ws = await fh.createWritable();
+    await ws.write('changed');
+
+    await expect(ws.close()).rejects.toHaveProperty('name', 'InvalidStateError');
+    expect(await (await fh.getFile()).text()).toBe('original');
+
+    // The stream is errored and its lock released
+    await expect(ws.write('again')).rejects.toThrow();
+    const exclusive = await fh.createWritable({ mode: 'exclusive' });
+    await exclusive.abort();
+    await fh.remove();
+  });
+
+  test('faults are not injected into closing sync access handles', async () => {
+    const storage = storageFactory({ faults: [{ operation: 'syncAccessHandle.close', error: 'InvalidStateError' }] });
+    const root = await storage.getDirectory();
+    const fh = await root.getFileHandle('db.sqlite', { create: true });
+    const handle = await fh.createSyncAccessHandle();
+
+    await expect(handle.close()).resolves.toBeUndefined();
+    const reopened = await fh.createSyncAccessHandle();
+    reopened.close();
+  });
+
+  test('faults predicate can fail sync access handle operations', async () => {
+    const storage = storageFactory({
+      faults: ({ operation, path }) => (operation === 'syncAccessHandle.flush' && path === 'db.sqlite' ? 'InvalidStateError' : undefined),
+    });
+    const root = await storage.getDirectory();
+    const fh = await root.getFileHandle('db.sqlite', { create: true });
+    const handle = await fh.createSyncAccessHandle();
+
+    expect(handle.write(new Uint8Array([1]))).toBe(1);
+    await expect(handle.flush()).rejects.toThrowError(
+      new DOMException("Injected fault in syncAccessHandle.flush at 'db.sqlite'", 'InvalidStateError'),
+    );
+    await handle.close();
+  });
+
+  test('faults throw synchronously from synchronous sync access handle methods', async () => {
+    const storage = storageFactory({ faults: [{ operation: 'syncAccessHandle.write', error: 'QuotaExceededError' }] });
+    const root = await storage.getDirectory();
+    const handle = await (await root.getFileHandle('f.bin', { create: true })).createSyncAccessHandle();
+
+    expect(() => handle.write(new Uint8Array([1]))).toThrowError(
+      new DOMException("Injected fault in syncAccessHandle.write at 'f.bin'", 'QuotaExceededError'),
+    );
+    expect(handle.getSize()).toBe(0);
+    await handle.close();
+  });
+
+  test('resetMockOPFS accepts faults', async () => {
+    resetMockOPFS({ faults: [{ operation: 'removeEntry', path: /\.lock$/, error: 'NoModificationAllowedError' }] });
+    const root = await navigator.storage.getDirectory();
+    await root.getFileHandle('db.lock', { create: true });
+    await root.getFileHandle('db.txt', { create: true });
+
+    await expect(root.removeEntry('db.lock')).rejects.toHaveProperty('name', 'NoModificationAllowedError');
+    await expect(root.removeEntry('db.txt')).resolves.toBeUndefined();
+  });
+
+  test('latency delays asynchronous operations and works with fake timers', async () => {
+    vi.useFakeTimers();
+    try {
+      const storage = storageFactory({ latency: 100 });
+      const root = await storage.getDirectory();
+
+      let isDone = false;
+      const promise = root.getFileHandle('slow.txt', { create: true }).then(() => {
+        isDone = true;
+      });
+
+      await vi.advanceTimersByTimeAsync(99);
+      expect(isDone).toBe(false);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(isDone).toBe(true);
+      await promise;
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  test('latency ranges with the same seed produce the same delays', async () => {
+    vi.useFakeTimers();
+    try {
+      const measure = async (): Promise<number[]> => {
+        const storage = storageFactory({ latency: { min: 10, max: 20, seed: 42 } });
+        const root = await storage.getDirectory();
+        const elapsed: number[] = [];
+        for (let i = 0; i < 3; i++) {
+          const start = Date.now();
+          const promise = root.getFileHandle(`f${i}.txt`, { create: true });
+          await vi.runAllTimersAsync();
+          await promise;
+          elapsed.push(Date.now() - start);
+        }
+        return elapsed;
+      };
+
+      const first = await measure();
+      const second = await measure();
+      expect(first).toEqual(second);
+      for (const delay of first) {
+        expect(delay).toBeGreaterThanOrEqual(10);
+        expect(delay).toBeLessThanOrEqual(20);
+      }
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  test('latency per operation exposes races between concurrent writable closes', async () => {
+    vi.useFakeTimers();
+    try {
+      const closeDelays = [50, 10];
+      const storage = storageFactory({
+        latency: ({ operation }) => (operation === 'writable.close' ? (closeDelays.shift() ?? 0) : 0),
+      });
+      const root = await storage.getDirectory();
+      const fh = await root.getFileHandle('race.txt', { create: true });
+
+      const first = await fh.createWritable();
+      const second = await fh.createWritable();
+      await first.write('first');
+      await second.write('second');
+
+      const closes = Promise.all([first.close(), second.close()]);
+      await vi.runAllTimersAsync();
+      await closes;
+
+      // The first close started earlier but took longer, so it committed last
+      expect(await (await fh.getFile()).text()).toBe('first');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  test('latency lets entries change while a directory is being iterated', async () => {
+    vi.useFakeTimers();
+    try {
+      const storage = storageFactory({
+        initialTree: { 'a.txt': 'A', 'b.txt': 'B' },
+        latency: ({ operation }) => (operation === 'entries' ? 10 : 0),
+      });
+      const root = await storage.getDirectory();
+      const iterator = root.entries();
+
+      const firstEntry = iterator.next();
+      await vi.runAllTimersAsync();
+      expect((await firstEntry).value?.[0]).toBe('a.txt');
+
+      await root.removeEntry('b.txt');
+
+      const secondEntry = iterator.next();
+      await vi.runAllTimersAsync();
+      const [name, removedHandle] = (await secondEntry).value ?? [];
+      expect(name).toBe('b.txt');
+      await expect((removedHandle as FileSystemFileHandle).getFile()).rejects.toHaveProperty('name', 'NotFoundError');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  test('latency does not let a file and a directory be created under the same name', async () => {
+    const root = await storageFactory({ latency: 5 }).getDirectory();
+
+    const [file, directory] = await Promise.allSettled([
+      root.getFileHandle('x', { create: true }),
+      root.getDirectoryHandle('x', { create: true }),
+    ]);
+
+    expect(file.status).toBe('fulfilled');
+    expect(directory).toStrictEqual({ status: 'rejected', reason: expect.objectContaining({ name: 'TypeMismatchError' }) });
+    expect(await dumpTree(root)).toStrictEqual({ x: '' });
+  });
+
+  test('journal records operations with their path, arguments, bytes and outcome', async () => {
+    const journal = new OperationJournal();
+    const storage = storageFactory({ journal });
+    const root = await storage.getDirectory();
+    const dir = await root.getDirectoryHandle('dir', { create: true });
+    const fileHandle = await dir.getFileHandle('file.txt', { create: true });
+
+    const writable = await fileHandle.createWritable();
+    await writable.write('Hello');
+    await writable.close();
+    await fileHandle.getFile();
+
+    expect(journal.getRecords().map(({ operation, path }) => [operation, path])).toStrictEqual([
+      ['getDirectoryHandle', 'dir'],
+      ['getFileHandle', 'dir/file.txt'],
+      ['createWritable', 'dir/file.txt'],
+      ['writable.write', 'dir/file.txt'],
+      ['writable.close', 'dir/file.txt'],
+      ['getFile', 'dir/file.txt'],
+    ]);
+    expect(journal.getRecords({ operation: 'getFileHandle' })[0]).toMatchObject({
+      args: ['file.txt', { create: true }],
+      outcome: 'success',
+    });
+    expect(journal.getRecords({ operation: 'writable.write' })[0].bytes).toBe(5);
+    expect(journal.getRecords({ operation: 'writable.close' })[0].bytes).toBe(5);
+    expect(journal.getRecords({ operation: 'getFile' })[0].bytes).toBe(5);
+  });
+
+  test('journal records failed operations with their error', async () => {
+    const journal = new OperationJournal();
+    const storage = storageFactory({ journal });
+    const root = await storage.getDirectory();
+
+    await expect(root.getFileHandle('missing.txt')).rejects.toThrow();
+
+    const [record] = journal.getRecords({ outcome: 'error' });
+    expect(record).toMatchObject({ operation: 'getFileHandle', path: 'missing.txt', outcome: 'error' });
+    expect(record.error).toHaveProperty('name', 'NotFoundError');
+  });
+
+  test('journal records sync access handle calls and writes made through a writer', async () => {
+    const journal = new OperationJournal();
+    const storage = storageFactory({ journal });
+    const root = await storage.getDirectory();
+    const fileHandle = await root.getFileHandle('file.bin', { create: true });
+
+    const writer = (await fileHandle.createWritable()).getWriter();
+    await writer.write(new Uint8Array([1, 2, 3]));
+    await writer.close();
+
+    const syncHandle = await fileHandle.createSyncAccessHandle();
+    syncHandle.write(new Uint8Array([4, 5]), { at: 3 });
+    syncHandle.read(new Uint8Array(10), { at: 0 });
+    syncHandle.close();
+
+    expect(journal.getRecords({ operation: 'writable.write' })[0].bytes).toBe(3);
+    expect(journal.getRecords({ operation: 'syncAccessHandle.write' })[0]).toMatchObject({ bytes: 2, outcome: 'success' });
+    expect(journal.getRecords({ operation: 'syncAccessHandle.read' })[0]).toMatchObject({ bytes: 5, outcome: 'success' });
+  });
+
+  test('journal settles directory iteration once it finishes', async () => {
+    const journal = new OperationJournal();
+    const storage = storageFactory({ initialTree: { 'a.txt': 'A', 'b.txt': 'B' }, journal });
+    const root = await storage.getDirectory();
+
+    const iterator = root.keys();
+    await iterator.next();
+    expect(journal.getRecords({ operation: 'keys' })[0].outcome).toBe('pending');
+
+    for await (const _ of iterator) {
+      // Exhaust the iterator
+    }
+    expect(journal.getRecords({ operation: 'keys' })[0].outcome).toBe('success');
+  });
+
+  test('journal can be filtered, counted and cleared', async () => {
+    const journal = new OperationJournal();
+    const storage = storageFactory({ initialTree: { logs: { 'a.log': '', 'b.log': '' }, 'c.txt': '' }, journal });
+    const root = await storage.getDirectory();
+    const logs = await root.getDirectoryHandle('logs');
+    await logs.getFileHandle('a.log');
+    await logs.getFileHandle('b.log');
+    await root.getFileHandle('c.txt');
+
+    expect(journal.count({ operation: 'getFileHandle' })).toBe(3);
+    expect(journal.count({ path: /^logs\// })).toBe(2);
+    expect(journal.count({ operation: ['getFileHandle', 'getDirectoryHandle'], outcome: 'success' })).toBe(4);
+
+    journal.clear();
+    expect(journal.count()).toBe(0);
+  });
+
+  test('handles, writable streams and sync access handles are instances of the global interfaces', async () => {
+    const storage = storageFactory();
+    const root = await storage.getDirectory();
+    const fileHandle = await root.getFileHandle('file.txt', { create: true });
+    const writable = await fileHandle.createWritable();
+    await writable.close();
+    const syncHandle = await fileHandle.createSyncAccessHandle();
+
+    expect(root).toBeInstanceOf(FileSystemHandle);
+    expect(root).toBeInstanceOf(FileSystemDirectoryHandle);
+    expect(root).not.toBeInstanceOf(FileSystemFileHandle);
+    expect(fileHandle).toBeInstanceOf(FileSystemHandle);
+    expect(fileHandle).toBeInstanceOf(FileSystemFileHandle);
+    expect(writable).toBeInstanceOf(FileSystemWritableFileStream);
+    expect(writable).toBeInstanceOf(WritableStream);
+    expect(syncHandle).toBeInstanceOf(FileSystemSyncAccessHandle);
+
+    expect(Object.prototype.toString.call(root)).toBe('[object FileSystemDirectoryHandle]');
+    expect(Object.prototype.toString.call(fileHandle)).toBe('[object FileSystemFileHandle]');
+    expect(Object.prototype.toString.call(writable)).toBe('[object FileSystemWritableFileStream]');
+    expect(Object.prototype.toString.call(syncHandle)).toBe('[object FileSystemSyncAccessHandle]');
+    syncHandle.close();
+  });
+
+  test('methods are shared on the prototype', async () => {
+    const storage = storageFactory();
+    const root = await storage.getDirectory();
+    const first = await root.getFileHandle('first.txt', { create: true });
+    const second = await root.getFileHandle('second.txt', { create: true });
+
+    expect(first.getFile).toBe(second.getFile);
+    expect(Object.hasOwn(first, 'getFile')).toBe(false);
+    expect(first.kind).toBe('file');
+    expect(root.kind).toBe('directory');
+  });
+
+  test('interfaces throw when constructed directly', () => {
+    const interfaces = [
+      FileSystemHandle,
+      FileSystemFileHandle,
+      FileSystemDirectoryHandle,
+      FileSystemWritableFileStream,
+      FileSystemSyncAccessHandle,
+    ] as unknown as (new () => unknown)[];
+
+    for (const Interface of interfaces) {
+      expect(() => new Interface()).toThrow(new TypeError('Illegal constructor'));
+    }
+  });
+
+  test('methods throw when called on objects that are not handles', async () => {
+    const root = await storageFactory().getDirectory();
+    await expect(FileSystemFileHandle.prototype.getFile.call({} as FileSystemFileHandle)).rejects.toThrow(TypeError);
+    await expect(root.getFileHandle.call({} as FileSystemDirectoryHandle, 'file.txt')).rejects.toThrow(TypeError);
+  });
+
+  test('resetMockOPFS replaces the storage manager, including estimate()', async () => {
+    const rootDirectory = await globalThis.navigator.storage.getDirectory();
+    const fileHandle = await rootDirectory.getFileHandle('file.txt', { create: true });
+    const writable = await fileHandle.createWritable();
+    await writable.write('Hello');
+    await writable.close();
+    expect((await globalThis.navigator.storage.estimate()).usage).toBe(5);
+
+    resetMockOPFS();
+
+    expect(await globalThis.navigator.storage.getDirectory()).not.toBe(rootDirectory);
+    expect((await globalThis.navigator.storage.estimate()).usage).toBe(0);
+  });
+
+  test('resetMockOPFS honors quota and usage', async () => {
+    resetMockOPFS({ quota: 100, usage: 10 });
+
+    const rootDirectory = await globalThis.navigator.storage.getDirectory();
+    const fileHandle = await rootDirectory.getFileHandle('file.txt', { create: true });
+    const syncHandle = await fileHandle.createSyncAccessHandle();
+    syncHandle.write(new Uint8Array(20));
+    expect(() => syncHandle.write(new Uint8Array(80), { at: 20 })).toThrow(expect.objectContaining({ name: 'QuotaExceededError' }));
+    syncHandle.close();
+
+    expect(await globalThis.navigator.storage.estimate()).toStrictEqual({ usage: 30, quota: 100, usageDetails: { fileSystem: 30 } });
+  });
+
+  test('resetMockOPFS replaces a storage manager that is not a mock', async () => {
+    Object.defineProperty(globalThis.navigator, 'storage', {
+      value: { estimate: async () => ({ usage: 0, quota: 0 }) },
+      writable: true,
+      configurable: true,
+    });
+
+    resetMockOPFS({ quota: 1_000 });
+
+    const rootDirectory = await globalThis.navigator.storage.getDirectory();
+    expect(rootDirectory).toBeInstanceOf(FileSystemDirectoryHandle);
+    expect(await globalThis.navigator.storage.estimate()).toStrictEqual({ usage: 0, quota: 1_000, usageDetails: {} });
+  });
+
+  test('read-only sync access handles share the lock and cannot modify the file', async () => {
+    const storage = storageFactory({ initialTree: { 'file.txt': 'Hello' } });
+    const root = await storage.getDirectory();
+    const fileHandle = await root.getFileHandle('file.txt');
+
+    const first = await fileHandle.createSyncAccessHandle({ mode: 'read-only' });
+    const second = await fileHandle.createSyncAccessHandle({ mode: 'read-only' });
+
+    const buffer = new Uint8Array(5);
+    expect(second.read(buffer, { at: 0 })).toBe(5);
+    expect(new TextDecoder().decode(buffer)).toBe('Hello');
+
+    expect(() => first.write(new Uint8Array([1]))).toThrow(expect.objectContaining({ name: 'NoModificationAllowedError' }));
+    expect(() => first.truncate(0)).toThrow(expect.objectContaining({ name: 'NoModificationAllowedError' }));
+    await expect(first.flush()).rejects.toHaveProperty('name', 'NoModificationAllowedError');
+    expect(first.getSize()).toBe(5);
+
+    first.close();
+    second.close();
+  });
+
+  test('readwrite-unsafe sync access handles share the lock and can write', async () => {
+    const storage = storageFactory();
+    const root = await storage.getDirectory();
+    const fileHandle = await root.getFileHandle('file.bin', { create: true });
+
+    const first = await fileHandle.createSyncAccessHandle({ mode: 'readwrite-unsafe' });
+    const second = await fileHandle.createSyncAccessHandle({ mode: 'readwrite-unsafe' });
+    first.write(new Uint8Array([1, 2]), { at: 0 });
+    second.write(new Uint8Array([3]), { at: 2 });
+
+    expect(first.getSize()).toBe(3);
+    expect(await dumpTree(root, { encoding: 'bytes' })).toStrictEqual({ 'file.bin': [1, 2, 3] });
+
+    first.close();
+    second.close();
+  });
+
+  test('sync access handles of different modes conflict', async () => {
+    const storage = storageFactory();
+    const root = await storage.getDirectory();
+    const fileHandle = await root.getFileHandle('file.txt', { create: true });
+
+    const readOnly = await fileHandle.createSyncAccessHandle({ mode: 'read-only' });
+    await expect(fileHandle.createSyncAccessHandle()).rejects.toHaveProperty('name', 'NoModificationAllowedError');
+    await expect(fileHandle.createSyncAccessHandle({ mode: 'readwrite-unsafe' })).rejects.toHaveProperty(
+      'name',
+      'NoModificationAllowedError',
+    );
+    readOnly.close();
+
+    const exclusive = await fileHandle.createSyncAccessHandle({ mode: 'readwrite' });
+    await expect(fileHandle.createSyncAccessHandle({ mode: 'read-only' })).rejects.toHaveProperty('name', 'NoModificationAllowedError');
+    exclusive.close();
+  });
+
+  test('shared locks are released once every sync access handle is closed', async () => {
+    const storage = storageFactory();
+    const root = await storage.getDirectory();
+    const fileHandle = await root.getFileHandle('file.txt', { create: true });
+
+    const first = await fileHandle.createSyncAccessHandle({ mode: 'read-only' });
+    const second = await fileHandle.createSyncAccessHandle({ mode: 'read-only' });
+
+    first.close();
+    // Closing the same handle twice doesn't release the lock held by the other one
+    first.close();
+    await expect(fileHandle.createSyncAccessHandle()).rejects.toHaveProperty('name', 'NoModificationAllowedError');
+
+    second.close();
+    const exclusive = await fileHandle.createSyncAccessHandle();
+    exclusive.close();
+  });
+
+  test('createSyncAccessHandle rejects unknown modes', async () => {
+    const storage = storageFactory();
+    const root = await storage.getDirectory();
+    const fileHandle = await root.getFileHandle('file.txt', { create: true });
+
+    await expect(fileHandle.createSyncAccessHandle({ mode: 'write-only' as FileSystemSyncAccessHandleMode })).rejects.toThrow(TypeError);
+  });
+
+  test('an open sync access handle blocks writables, removal and moves of its file', async () => {
+    const storage = storageFactory({ initialTree: { 'file.txt': 'Hello', dir: {} } });
+    const root = await storage.getDirectory();
+    const fileHandle = await root.getFileHandle('file.txt');
+    const dir = await root.getDirectoryHandle('dir');
+
+    const syncHandle = await fileHandle.createSyncAccessHandle();
+
+    await expect(fileHandle.createWritable()).rejects.toThrowError(
+      new DOMException('A sync access handle is already open for this file', 'NoModificationAllowedError'),
+    );
+    await expect(root.removeEntry('file.txt')).rejects.toHaveProperty('name', 'NoModificationAllowedError');
+    await expect(fileHandle.remove()).rejects.toHaveProperty('name', 'NoModificationAllowedError');
+    await expect(fileHandle.move('renamed.txt')).rejects.toHaveProperty('name', 'NoModificationAllowedError');
+    await expect(fileHandle.move(dir)).rejects.toHaveProperty('name', 'NoModificationAllowedError');
+    expect(await dumpTree(root)).toStrictEqual({ 'file.txt': 'Hello', dir: {} });
+
+    syncHandle.close();
+    await fileHandle.move(dir, 'renamed.txt');
+    expect(await dumpTree(root)).toStrictEqual({ dir: { 'renamed.txt': 'Hello' } });
+  });
+
+  test('open writables share their lock and block sync access handles until closed or aborted', async () => {
+    const storage = storageFactory();
+    const root = await storage.getDirectory();
+    const fileHandle = await root.getFileHandle('file.txt', { create: true });
+
+    const first = await fileHandle.createWritable();
+    const second = await fileHandle.createWritable();
+    await expect(fileHandle.createSyncAccessHandle()).rejects.toThrowError(
+      new DOMException('A writable stream is already open for this file', 'NoModificationAllowedError'),
+    );
+    await expect(fileHandle.createSyncAccessHandle({ mode: 'read-only' })).rejects.toHaveProperty('name', 'NoModificationAllowedError');
+
+    await first.close();
+    await expect(fileHandle.createSyncAccessHandle()).rejects.toHaveProperty('name', 'NoModificationAllowedError');
+
+    await second.abort();
+    const syncHandle = await fileHandle.createSyncAccessHandle();
+    syncHandle.close();
+  });
+
+  test('a writable whose commit fails releases its lock', async () => {
+    const storage = storageFactory({ quota: 2 });
+    const root = await storage.getDirectory();
+    const fileHandle = await root.getFileHandle('file.txt', { create: true });
+
+    const writable = await fileHandle.createWritable();
+    await writable.write('Hello');
+    await expect(writable.close()).rejects.toHaveProperty('name', 'QuotaExceededError');
+    await expect(writable.write('Hi')).rejects.toThrow();
+
+    const syncHandle = await fileHandle.createSyncAccessHandle();
+    syncHandle.close();
+  });
+
+  test('directories containing files with open sync access handles cannot be removed, moved or replaced', async () => {
+    const storage = storageFactory({ initialTree: { dir: { nested: { 'file.txt': 'Hello' } }, other: {}, 'target.txt': 'Target' } });
+    const root = await storage.getDirectory();
+    const dir = await root.getDirectoryHandle('dir');
+    const other = await root.getDirectoryHandle('other');
+    const nested = await dir.getDirectoryHandle('nested');
+    const fileHandle = await nested.getFileHandle('file.txt');
+    const targetHandle = await root.getFileHandle('target.txt');
+
+    const syncHandle = await fileHandle.createSyncAccessHandle({ mode: 'read-only' });
+    const targetSyncHandle = await targetHandle.createSyncAccessHandle();
+
+    await expect(root.removeEntry('dir', { recursive: true })).rejects.toHaveProperty('name', 'NoModificationAllowedError');
+    await expect(dir.move(other)).rejects.toHaveProperty('name', 'NoModificationAllowedError');
+    await expect(dir.move('renamed')).rejects.toHaveProperty('name', 'NoModificationAllowedError');
+    syncHandle.close();
+
+    // Replacing a file that has an open sync access handle is rejected as well
+    await expect(fileHandle.move(root, 'target.txt')).rejects.toHaveProperty('name', 'NoModificationAllowedError');
+    targetSyncHandle.close();
+
+    await fileHandle.move(root, 'target.txt');
+    await root.removeEntry('dir', { recursive: true });
+    expect(await dumpTree(root)).toStrictEqual({ other: {}, 'target.txt': 'Hello' });
+  });
+
+  test('files with open siloed writables cannot be removed or moved', async () => {
+    const storage = storageFactory({ initialTree: { dir: { 'file.txt': 'Hello' }, other: {} } });
+    const root = await storage.getDirectory();
+    const dir = await root.getDirectoryHandle('dir');
+    const fileHandle = await dir.getFileHandle('file.txt');
+
+    const writable = await fileHandle.createWritable();
+    await expect(dir.removeEntry('file.txt')).rejects.toThrowError(
+      new DOMException('The entry is in use by a writable stream: file.txt', 'NoModificationAllowedError'),
+    );
+    await expect(fileHandle.remove()).rejects.toHaveProperty('name', 'NoModificationAllowedError');
+    await expect(fileHandle.move('renamed.txt')).rejects.toHaveProperty('name', 'NoModificationAllowedError');
+    await expect(dir.move(await root.getDirectoryHandle('other'))).rejects.toHaveProperty('name', 'NoModificationAllowedError');
+    await expect(root.removeEntry('dir', { recursive: true })).rejects.toHaveProperty('name', 'NoModificationAllowedError');
+    await writable.write('Written');
+    await writable.close();
+
+    await fileHandle.move('renamed.txt');
+    expect(await dumpTree(root)).toStrictEqual({ dir: { 'renamed.txt': 'Written' }, other: {} });
+  });
+
+  test('siloed writables write to their own copy and the last close wins', async () => {
+    const storage = storageFactory({ initialTree: { 'file.txt': 'Original' } });
+    const root = await storage.getDirectory();
+    const fileHandle = await root.getFileHandle('file.txt');
+
+    const first = await fileHandle.createWritable({ mode: 'siloed' });
+    const second = await fileHandle.createWritable();
+    await first.write('First');
+    await second.write('Second');
+
+    await second.close();
+    expect(await (await fileHandle.getFile()).text()).toBe('Second');
+    await first.close();
+    expect(await (await fileHandle.getFile()).text()).toBe('First');
+  });
+
+  test('exclusive writables conflict with every other writer', async () => {
+    const storage = storageFactory({ initialTree: { 'file.txt': 'Original' } });
+    const root = await storage.getDirectory();
+    const fileHandle = await root.getFileHandle('file.txt');
+
+    const siloed = await fileHandle.createWritable();
+    await expect(fileHandle.createWritable({ mode: 'exclusive' })).rejects.toThrowError(
+      new DOMException('A writable stream is already open for this file', 'NoModificationAllowedError'),
+    );
+    await siloed.abort();
+
+    const exclusive = await fileHandle.createWritable({ mode: 'exclusive', keepExistingData: true });
+    await expect(fileHandle.createWritable()).rejects.toHaveProperty('name', 'NoModificationAllowedError');
+    await expect(fileHandle.createWritable({ mode: 'exclusive' })).rejects.toHaveProperty('name', 'NoModificationAllowedError');
+    await expect(fileHandle.createSyncAccessHandle({ mode: 'read-only' })).rejects.toHaveProperty('name', 'NoModificationAllowedError');
+    await expect(root.removeEntry('file.txt')).rejects.toThrowError(
+      new DOMException('The entry is in use by a writable stream: file.txt', 'NoModificationAllowedError'),
+    );
+
+    await exclusive.write({ type: 'write', position: 8, data: '!' });
+    await exclusive.close();
+    expect(await (await fileHandle.getFile()).text()).toBe('Original!');
+
+    const next = await fileHandle.createWritable({ mode: 'exclusive' });
+    await next.close();
+  });
+
+  test('createWritable rejects unknown modes', async () => {
+    const storage = storageFactory();
+    const root = await storage.getDirectory();
+    const fileHandle = await root.getFileHandle('file.txt', { create: true });
+
+    await expect(fileHandle.createWritable({ mode: 'shared' as FileSystemWritableFileStreamMode })).rejects.toThrow(TypeError);
+  });
+
+  test('simulateCrash drops open writables without committing them', async () => {
+    const storage = storageFactory({ initialTree: { 'file.txt': 'Original' } });
+    const root = await storage.getDirectory();
+    const fileHandle = await root.getFileHandle('file.txt');
+
+    const writable = await fileHandle.createWritable();
+    await writable.write('Changed');
+    storage.simulateCrash();
+
+    expect(await dumpTree(root)).toStrictEqual({ 'file.txt': 'Original' });
+    await expect(writable.write('More')).rejects.toThrow();
+    await expect(writable.close()).rejects.toThrow();
+    expect(await dumpTree(root)).toStrictEqual({ 'file.txt': 'Original' });
+
+    // The lock is released, like after a reload
+    const syncHandle = await fileHandle.createSyncAccessHandle();
+    syncHandle.close();
+  });
+
+  test('simulateCrash closes sync access handles and keeps their in-place writes', async () => {
+    const storage = storageFactory({ initialTree: { dir: { 'file.txt': 'AAAA' } } });
+    const root = await storage.getDirectory();
+    const dir = await root.getDirectoryHandle('dir');
+    const fileHandle = await dir.getFileHandle('file.txt');
+
+    const syncHandle = await fileHandle.createSyncAccessHandle();
+    syncHandle.write(new TextEncoder().encode('BB'), { at: 0 });
+    storage.simulateCrash();
+
+    expect(await dumpTree(root)).toStrictEqual({ dir: { 'file.txt': 'BBAA' } });
+    expect(() => syncHandle.getSize()).toThrow(expect.objectContaining({ name: 'InvalidStateError' }));
+
+    const reopened = await fileHandle.createSyncAccessHandle();
+    reopened.close();
+  });
+
+  test('simulateCrash can tear sync access handle writes that were not flushed', async () => {
+    const storage = storageFactory({ recordUnflushedWrites: true, initialTree: { 'file.txt': '' } });
+    const root = await storage.getDirectory();
+    const fileHandle = await root.getFileHandle('file.txt');
+    const encoder = new TextEncoder();
+
+    const syncHandle = await fileHandle.createSyncAccessHandle();
+    syncHandle.write(encoder.encode('AAAA'), { at: 0 });
+    await syncHandle.flush();
+    syncHandle.write(encoder.encode('BBBB'), { at: 0 });
+    syncHandle.write(encoder.encode('CC'), { at: 4 });
+    syncHandle.truncate(3);
+
+    // The first unflushed write is cut in half, everything after it is lost
+    const randomValues = [0, 0.5];
+    storage.simulateCrash({ tearUnflushedWrites: true, random: () => randomValues.shift() ?? 0 });
+
+    expect(await dumpTree(root)).toStrictEqual({ 'file.txt': 'BBAA' });
+  });
+
+  test('simulateCrash undoes unflushed writes past the end of the file', async () => {
+    const diskBackend = createDiskBackend();
+    try {
+      for (const backend of [memoryBackend, diskBackend]) {
+        const storage = storageFactory({ recordUnflushedWrites: true, initialTree: { 'file.bin': new Uint8Array([1, 2, 3]) }, backend });
+        const root = await storage.getDirectory();
+        const syncHandle = await (await root.getFileHandle('file.bin')).createSyncAccessHandle();
+        syncHandle.write(new Uint8Array([9, 9]), { at: 8 });
+
+        storage.simulateCrash({ tearUnflushedWrites: true, random: () => 0 });
+
+        expect(await dumpTree(root, { encoding: 'bytes' })).toStrictEqual({ 'file.bin': [1, 2, 3] });
+      }
+    } finally {
+      rmSync(diskBackend.directory, { recursive: true, force: true });
+    }
+  });
+
+  test('simulateCrash keeps the torn part of a write past the end of the file', async () => {
+    const storage = storageFactory({ recordUnflushedWrites: true, initialTree: { 'file.bin': new Uint8Array([1, 2, 3]) } });
+    const root = await storage.getDirectory();
+    const syncHandle = await (await root.getFileHandle('file.bin')).createSyncAccessHandle();
+    syncHandle.write(new Uint8Array([9, 9]), { at: 4 });
+
+    const randomValues = [0, 0.5];
+    storage.simulateCrash({ tearUnflushedWrites: true, random: () => randomValues.shift() ?? 0 });
+
+    expect(await dumpTree(root, { encoding: 'bytes' })).toStrictEqual({ 'file.bin': [1, 2, 3, 0, 9] });
+  });
+
+  test('simulateCrash undoes unflushed truncates that grow the file', async () => {
+    const storage = storageFactory({ recordUnflushedWrites: true, initialTree: { 'file.bin': new Uint8Array([1, 2, 3]) } });
+    const root = await storage.getDirectory();
+    const syncHandle = await (await root.getFileHandle('file.bin')).createSyncAccessHandle();
+    syncHandle.truncate(10);
+
+    storage.simulateCrash({ tearUnflushedWrites: true, random: () => 0 });
+
+    expect(await dumpTree(root, { encoding: 'bytes' })).toStrictEqual({ 'file.bin': [1, 2, 3] });
+  });
+
+  test('simulateCrash only tears writes when the storage records them', async () => {
+    const storage = storageFactory({ initialTree: { 'file.txt': '' } });
+    const root = await storage.getDirectory();
+    const syncHandle = await (await root.getFileHandle('file.txt')).createSyncAccessHandle();
+    syncHandle.write(new TextEncoder().encode('Kept'), { at: 0 });
+
+    expect(() => storage.simulateCrash({ tearUnflushedWrites: true })).toThrow(TypeError);
+    storage.simulateCrash();
+
+    expect(await dumpTree(root)).toStrictEqual({ 'file.txt': 'Kept' });
+  });
+
+  test('simulateCrash keeps flushed and closed sync access handle writes intact', async () => {
+    const storage = storageFactory({ recordUnflushedWrites: true, initialTree: { 'flushed.txt': '', 'closed.txt': '' } });
+    const root = await storage.getDirectory();
+    const encoder = new TextEncoder();
+
+    const flushed = await (await root.getFileHandle('flushed.txt')).createSyncAccessHandle();
+    flushed.write(encoder.encode('Flushed'));
+    await flushed.flush();
+
+    const closed = await (await root.getFileHandle('closed.txt')).createSyncAccessHandle();
+    closed.write(encoder.encode('Closed'));
+    closed.close();
+
+    storage.simulateCrash({ tearUnflushedWrites: true, random: () => 0 });
+
+    expect(await dumpTree(root)).toStrictEqual({ 'flushed.txt': 'Flushed', 'closed.txt': 'Closed' });
+  });
+
+  test('simulateCrashMockOPFS crashes the global mock', async () => {
+    const rootDirectory = await globalThis.navigator.storage.getDirectory();
+    const fileHandle = await rootDirectory.getFileHandle('file.txt', { create: true });
+    const writable = await fileHandle.createWritable();
+    await writable.write('Lost');
+
+    await simulateCrashMockOPFS();
+
+    expect(await dumpTree(rootDirectory)).toStrictEqual({ 'file.txt': '' });
+  });
+
+  test('flush durability keeps sync access handle writes in the handle until they are flushed', async () => {
+    const storage = storageFactory({ initialTree: { 'file.txt': 'AAAA' }, durability: 'flush' });
+    const root = await storage.getDirectory();
+    const fileHandle = await root.getFileHandle('file.txt');
+    const encoder = new TextEncoder();
+
+    const syncHandle = await fileHandle.createSyncAccessHandle();
+    syncHandle.write(encoder.encode('BBBBBB'), { at: 0 });
+
+    const buffer = new Uint8Array(6);
+    expect(syncHandle.read(buffer, { at: 0 })).toBe(6);
+    expect(new TextDecoder().decode(buffer)).toBe('BBBBBB');
+    expect(syncHandle.getSize()).toBe(6);
+    expect(await (await fileHandle.getFile()).text()).toBe('AAAA');
+    expect(storage.snapshot().files[0][1].content).toStrictEqual(encoder.encode('AAAA'));
+
+    await syncHandle.flush();
+    expect(await (await fileHandle.getFile()).text()).toBe('BBBBBB');
+
+    // Writes after a flush don't leak into the flushed content
+    syncHandle.truncate(2);
+    syncHandle.write(encoder.encode('C'), { at: 0 });
+    expect(await (await fileHandle.getFile()).text()).toBe('BBBBBB');
+
+    syncHandle.close();
+    expect(await (await fileHandle.getFile()).text()).toBe('CB');
+  });
+
+  test('flush durability keeps what other readwrite-unsafe handles flushed', async () => {
+    const storage = storageFactory({ initialTree: { 'file.txt': 'aaaaaaaa' }, durability: 'flush' });
+    const root = await storage.getDirectory();
+    const fileHandle = await root.getFileHandle('file.txt');
+    const encoder = new TextEncoder();
+
+    const first = await fileHandle.createSyncAccessHandle({ mode: 'readwrite-unsafe' });
+    const second = await fileHandle.createSyncAccessHandle({ mode: 'readwrite-unsafe' });
+    first.write(encoder.encode('XX'), { at: 0 });
+    second.write(encoder.encode('YY'), { at: 8 });
+    await first.flush();
+    await second.flush();
+
+    expect(await (await fileHandle.getFile()).text()).toBe('XXaaaaaaYY');
+
+    second.truncate(4);
+    first.write(encoder.encode('Z'), { at: 1 });
+    second.close();
+    first.close();
+    expect(await (await fileHandle.getFile()).text()).toBe('XZaa');
+  });
+
+  test('flush durability loses unflushed sync access handle writes on a crash', async () => {
+    const storage = storageFactory({ initialTree: { 'file.txt': '' }, durability: 'flush' });
+    const root = await storage.getDirectory();
+    const fileHandle = await root.getFileHandle('file.txt');
+    const encoder = new TextEncoder();
+
+    const syncHandle = await fileHandle.createSyncAccessHandle();
+    syncHandle.write(encoder.encode('Journal'), { at: 0 });
+    await syncHandle.flush();
+    syncHandle.write(encoder.encode(' entry'), { at: 7 });
+    storage.simulateCrash();
+
+    expect(await dumpTree(root)).toStrictEqual({ 'file.txt': 'Journal' });
+  });
+
+  test('flush durability checks quota against durable usage', async () => {
+    const storage = storageFactory({ quota: 8, durability: 'flush' });
+    const root = await storage.getDirectory();
+    const fileHandle = await root.getFileHandle('file.bin', { create: true });
+
+    const syncHandle = await fileHandle.createSyncAccessHandle();
+    syncHandle.write(new Uint8Array(6), { at: 0 });
+    expect(() => syncHandle.write(new Uint8Array(4), { at: 6 })).toThrow(expect.objectContaining({ name: 'QuotaExceededError' }));
+    syncHandle.close();
+
+    expect(await storage.estimate()).toStrictEqual({ usage: 6, quota: 8, usageDetails: { fileSystem: 6 } });
+  });
+
+  test('disk backend keeps file contents in its directory', async () => {
+    const backend = createDiskBackend();
+    try {
+      const storage = storageFactory({ initialTree: { 'data.json': '{}' }, backend });
+      const root = await storage.getDirectory();
+      const fileHandle = await root.getFileHandle('data.json');
+
+      const writable = await fileHandle.createWritable({ keepExistingData: true });
+      await writable.write({ type: 'write', position: 1, data: '"a":1}' });
+      // Uncommitted writes go to a copy of the file, which replaces it on close
+      expect(readdirSync(backend.directory).sort()).toStrictEqual(['1-data.json', '2-data.json']);
+      await writable.close();
+
+      expect(readdirSync(backend.directory)).toStrictEqual(['2-data.json']);
+      expect(readFileSync(join(backend.directory, '2-data.json'), 'utf8')).toBe('{"a":1}');
+      expect(await (await fileHandle.getFile()).text()).toBe('{"a":1}');
+      expect(await storage.estimate()).toStrictEqual({ usage: 7, quota: 1024 ** 3, usageDetails: { fileSystem: 7 } });
+    } finally {
+      rmSync(backend.directory, { recursive: true, force: true });
+    }
+  });
+
+  test('disk backend behaves like the memory backend', async () => {
+    const run = async (storage: ReturnType<typeof storageFactory>): Promise<unknown[]> => {
+      const root = await storage.getDirectory();
+      const fileHandle = await root.getFileHandle('file.bin', { create: true });
+      const outcomes: unknown[] = [];
+
+      const syncHandle = await fileHandle.createSyncAccessHandle();
+      syncHandle.write(new Uint8Array([1, 2, 3]), { at: 2 });
+      outcomes.push(syncHandle.getSize());
+      const buffer = new Uint8Array(8);
+      outcomes.push(syncHandle.read(buffer, { at: 1 }), [...buffer]);
+      outcomes.push(await fileHandle.createWritable().catch((error) => error.name));
+      outcomes.push(await root.removeEntry('file.bin').catch((error) => error.name));
+      outcomes.push(
+        await Promise.resolve()
+          .then(() => syncHandle.write(new Uint8Array(16)))
+          .catch((error) => error.name),
+      );
+      syncHandle.truncate(4);
+      await syncHandle.flush();
+      syncHandle.write(new Uint8Array([9, 9]), { at: 0 });
+      const randomValues = [0, 0.5];
+      storage.simulateCrash({ tearUnflushedWrites: true, random: () => randomValues.shift() ?? 0 });
+
+      outcomes.push([...new Uint8Array(await (await fileHandle.getFile()).arrayBuffer())]);
+      outcomes.push(await storage.estimate());
+      return outcomes;
+    };
+
+    const backend = createDiskBackend();
+    try {
+      const memoryOutcomes = await run(storageFactory({ recordUnflushedWrites: true, quota: 10 }));
+      expect(await run(storageFactory({ recordUnflushedWrites: true, quota: 10, backend }))).toStrictEqual(memoryOutcomes);
+      expect(memoryOutcomes).toStrictEqual([
+        5,
+        4,
+        [0, 1, 2, 3, 0, 0, 0, 0],
+        'NoModificationAllowedError',
+        'NoModificationAllowedError',
+        'QuotaExceededError',
+        [9, 0, 1, 2],
+        { usage: 4, quota: 10, usageDetails: { fileSystem: 4 } },
+      ]);
+    } finally {
+      rmSync(backend.directory, { recursive: true, force: true });
+    }
+  });
+
+  test('disk backend deletes the contents of removed files', async () => {
+    const backend = createDiskBackend();
+    try {
+      const storage = storageFactory({
+        persisted: false,
+        initialTree: { 'a.txt': 'A', dir: { 'b.txt': 'B' }, 'c.txt': 'C', 'd.txt': 'D' },
+        backend,
+      });
+      const root = await storage.getDirectory();
+      await root.removeEntry('a.txt');
+      await root.removeEntry('dir', { recursive: true });
+      expect(readdirSync(backend.directory).sort()).toStrictEqual(['3-c.txt', '4-d.txt']);
+
+      // Restoring replaces files even while streams are open, their content is kept until the stream is done with it
+      const snapshot = storage.snapshot();
+      const writable = await (await root.getFileHandle('d.txt')).createWritable();
+      storage.restore(snapshot);
+      expect(readdirSync(backend.directory).sort()).toStrictEqual(['4-d.txt', '5-d.txt', '6-c.txt', '7-d.txt']);
+      await writable.write('Replaced');
+      await writable.close();
+      expect(readdirSync(backend.directory).sort()).toStrictEqual(['6-c.txt', '7-d.txt']);
+
+      storage.simulateEviction();
+      expect(readdirSync(backend.directory)).toStrictEqual([]);
+    } finally {
+      rmSync(backend.directory, { recursive: true, force: true });
+    }
+  });
+
+  test('aborting a closed writable stream keeps the committed file on disk', async () => {
+    const backend = createDiskBackend();
+    try {
+      const root = await storageFactory({ backend, latency: 5 }).getDirectory();
+      const fileHandle = await root.getFileHandle('file.txt', { create: true });
+
+      const writable = await fileHandle.createWritable();
+      await writable.write('Hello');
+      await writable.getWriter().close();
+      await writable.abort();
+      expect(await (await fileHandle.getFile()).text()).toBe('Hello');
+
+      // Aborting while the close is still delayed doesn't undo it either
+      const racing = await fileHandle.createWritable();
+      await racing.write('World');
+      await Promise.all([racing.close(), racing.abort()]);
+      expect(await (await fileHandle.getFile()).text()).toBe('World');
+      expect(readdirSync(backend.directory)).toHaveLength(1);
+    } finally {
+      rmSync(backend.directory, { recursive: true, force: true });
+    }
+  });
+
+  test('disk backend honours permissions', async () => {
+    const backend = createDiskBackend();
+    try {
+      const storage = storageFactory({
+        initialTree: { 'file.txt': 'Hello' },
+        backend,
+        queryPermission: async (desc) => (desc?.mode === 'readwrite' ? 'denied' : 'granted'),
+      });
+      const root = await storage.getDirectory();
+      const fileHandle = await root.getFileHandle('file.txt');
+
+      expect(await (await fileHandle.getFile()).text()).toBe('Hello');
+      await expect(fileHandle.createWritable()).rejects.toThrow(expect.objectContaining({ name: 'NotAllowedError' }));
+      expect(readdirSync(backend.directory)).toStrictEqual(['1-file.txt']);
+    } finally {
+      rmSync(backend.directory, { recursive: true, force: true });
+    }
+  });
+
+  test('custom backends receive every change made to file contents', async () => {
+    const calls: string[] = [];
+    const instrumented: StorageBackend = {
+      create: (name, source) => {
+        calls.push(`create ${name}`);
+        const content = memoryBackend.create(name, source);
+        return {
+          size: () => content.size(),
+          read: (at, length) => content.read(at, length),
+          snapshot: () => content.snapshot(),
+          write: (at, data) => {
+            calls.push(`write ${name} ${at} ${data.length}`);
+            content.write(at, data);
+          },
+          truncate: (size) => {
+            calls.push(`truncate ${name} ${size}`);
+            content.truncate(size);
+          },
+          dispose: () => calls.push(`dispose ${name}`),
+        } satisfies FileContent;
+      },
+    };
+    const storage = storageFactory({ backend: instrumented });
+    const root = await storage.getDirectory();
+    const fileHandle = await root.getFileHandle('log.txt', { create: true });
+
+    const writable = await fileHandle.createWritable();
+    await writable.write('Hello');
+    await writable.truncate(4);
+    await writable.close();
+    const syncHandle = await fileHandle.createSyncAccessHandle();
+    syncHandle.write(new TextEncoder().encode('!'), { at: 4 });
+    syncHandle.close();
+
+    expect(calls).toStrictEqual([
+      'create log.txt',
+      'create log.txt',
+      'write log.txt 0 5',
+      'truncate log.txt 4',
+      'dispose log.txt',
+      'write log.txt 4 1',
+    ]);
+    expect(await (await fileHandle.getFile()).text()).toBe('Hell!');
+  });
+
+  test('memory backend reads back zeros where a file shrank and grew again', () => {
+    const content = memoryBackend.create('file.bin');
+    content.write(0, new Uint8Array([1, 2, 3, 4, 5, 6]));
+    content.truncate(2);
+    content.write(4, new Uint8Array([7]));
+
+    expect(content.size()).toBe(5);
+    expect(content.snapshot()).toStrictEqual(new Uint8Array([1, 2, 0, 0, 7]));
+    expect(content.read(1, 10)).toStrictEqual(new Uint8Array([2, 0, 0, 7]));
+    expect(content.read(8, 2)).toStrictEqual(new Uint8Array());
+  });
+
+  test('estimate keeps track of usage as the tree changes', async () => {
+    const storage = storageFactory({ usage: 100, initialTree: { 'a.txt': 'Hello', dir: { 'b.bin': new Blob(['World!']) } } });
+    const root = await storage.getDirectory();
+    const usage = async (): Promise<number | undefined> => (await storage.estimate()).usage;
+    expect(await usage()).toBe(111);
+
+    const syncHandle = await (await root.getFileHandle('c.bin', { create: true })).createSyncAccessHandle();
+    syncHandle.write(new Uint8Array(10), { at: 0 });
+    syncHandle.truncate(4);
+    syncHandle.close();
+    expect(await usage()).toBe(115);
+
+    const writable = await (await root.getFileHandle('a.txt')).createWritable();
+    await writable.write('Hi');
+    expect(await usage()).toBe(115);
+    await writable.close();
+    expect(await usage()).toBe(112);
+
+    const snapshot = storage.snapshot();
+    await (await root.getFileHandle('c.bin')).move('a.txt');
+    expect(await usage()).toBe(110);
+    await root.removeEntry('dir', { recursive: true });
+    expect(await usage()).toBe(104);
+
+    storage.restore(snapshot);
+    expect(await usage()).toBe(112);
+  });
+
+  test('estimate does not count entries detached from the tree', async () => {
+    const storage = storageFactory({ initialTree: { 'file.txt': 'Hello' } });
+    const root = await storage.getDirectory();
+    const fileHandle = await root.getFileHandle('file.txt');
+
+    const writable = await fileHandle.createWritable();
+    await writable.write('Goodbye');
+    // Unlike removals, restoring replaces files that have open streams
+    storage.restore(storageFactory().snapshot());
+    await writable.close();
+
+    expect(await storage.estimate()).toStrictEqual({ usage: 0, quota: 1024 ** 3, usageDetails: {} });
+  });
+
+  test('estimate counts what a crash leaves behind', async () => {
+    const storage = storageFactory({ recordUnflushedWrites: true, initialTree: { 'file.txt': 'AA' } });
+    const root = await storage.getDirectory();
+    const syncHandle = await (await root.getFileHandle('file.txt')).createSyncAccessHandle();
+    syncHandle.write(new Uint8Array(8), { at: 2 });
+
+    storage.simulateCrash({ tearUnflushedWrites: true, random: () => 0 });
+
+    expect(await storage.estimate()).toStrictEqual({ usage: 2, quota: 1024 ** 3, usageDetails: { fileSystem: 2 } });
+  });
+
+  test('estimate does not need read permission', async () => {
+    const storage = storageFactory({ initialTree: { 'file.txt': 'Hello' }, queryPermission: async () => 'denied' });
+
+    expect(await storage.estimate()).toStrictEqual({ usage: 5, quota: 1024 ** 3, usageDetails: { fileSystem: 5 } });
+  });
+
+  test('entryOverhead is counted for every file and directory', async () => {
+    const storage = storageFactory({ entryOverhead: 100, quota: 310, initialTree: { dir: { 'file.txt': 'Hello' } } });
+    const root = await storage.getDirectory();
+    expect(await storage.estimate()).toStrictEqual({ usage: 205, quota: 310, usageDetails: { fileSystem: 205 } });
+
+    await expect(root.getFileHandle('other.txt', { create: true })).resolves.toBeDefined();
+    const writable = await (await root.getFileHandle('other.txt')).createWritable();
+    await writable.write('Too much');
+    await expect(writable.close()).rejects.toThrow(expect.objectContaining({ name: 'QuotaExceededError' }));
+
+    await root.removeEntry('dir', { recursive: true });
+    expect(await storage.estimate()).toStrictEqual({ usage: 100, quota: 310, usageDetails: { fileSystem: 100 } });
+  });
+
+  test('concurrent creations of the same entry return the same handle', async () => {
+    const storage = storageFactory({ entryOverhead: 10, latency: 5 });
+    const root = await storage.getDirectory();
+
+    const [first, second] = await Promise.all([root.getFileHandle('a', { create: true }), root.getFileHandle('a', { create: true })]);
+    const [firstDir, secondDir] = await Promise.all([
+      root.getDirectoryHandle('dir', { create: true }),
+      root.getDirectoryHandle('dir', { create: true }),
+    ]);
+
+    expect(second).toBe(first);
+    expect(secondDir).toBe(firstDir);
+    expect(await (await first.getFile()).text()).toBe('');
+    expect(await storage.estimate()).toStrictEqual({ usage: 20, quota: 1024 ** 3, usageDetails: { fileSystem: 20 } });
+  });
+
+  test('entryOverhead counts towards the quota when entries are created', async () => {
+    const storage = storageFactory({ entryOverhead: 8, quota: 10 });
+    const root = await storage.getDirectory();
+    await root.getFileHandle('file.txt', { create: true });
+
+    const quotaExceeded = expect.objectContaining({ name: 'QuotaExceededError' });
+    await expect(root.getFileHandle('other.txt', { create: true })).rejects.toThrow(quotaExceeded);
+    await expect(root.getDirectoryHandle('dir', { create: true })).rejects.toThrow(quotaExceeded);
+    expect(await dumpTree(root)).toStrictEqual({ 'file.txt': '' });
+    expect(await storage.estimate()).toStrictEqual({ usage: 8, quota: 10, usageDetails: { fileSystem: 8 } });
+  });
+
+  test('estimate breaks usage down by kind of storage', async () => {
+    const storage = storageFactory({ usage: 10, usageDetails: { indexedDB: 300, caches: 0 }, initialTree: { 'file.txt': 'Hello' } });
+
+    expect(await storage.estimate()).toStrictEqual({ usage: 315, quota: 1024 ** 3, usageDetails: { indexedDB: 300, fileSystem: 15 } });
+  });
+
+  test('usage of other kinds of storage counts towards the quota', async () => {
+    const storage = storageFactory({ quota: 10, usageDetails: { indexedDB: 6, fileSystem: 2 } });
+    const root = await storage.getDirectory();
+    const syncHandle = await (await root.getFileHandle('file.bin', { create: true })).createSyncAccessHandle();
+
+    expect(() => syncHandle.write(new Uint8Array(3))).toThrow(expect.objectContaining({ name: 'QuotaExceededError' }));
+    syncHandle.write(new Uint8Array(2));
+    syncHandle.close();
+
+    expect(await storage.estimate()).toStrictEqual({ usage: 10, quota: 10, usageDetails: { indexedDB: 6, fileSystem: 4 } });
+  });
+
+  test('persist() is granted by default', async () => {
+    const storage = storageFactory({ persisted: false });
+
+    expect(await storage.persisted()).toBe(false);
+    expect(await storage.persist()).toBe(true);
+    expect(await storage.persisted()).toBe(true);
+  });
+
+  test('persist() can be denied', async () => {
+    const storage = storageFactory({ persisted: false, persist: 'denied' });
+
+    expect(await storage.persist()).toBe(false);
+    expect(await storage.persisted()).toBe(false);
+  });
+
+  test('persist() asks a custom handler until it grants persistence', async () => {
+    const persist = vi.fn<() => Promise<boolean>>().mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+    const storage = storageFactory({ persisted: false, persist });
+
+    expect(await storage.persist()).toBe(false);
+    expect(await storage.persisted()).toBe(false);
+    expect(await storage.persist()).toBe(true);
+    expect(await storage.persist()).toBe(true);
+    expect(await storage.persisted()).toBe(true);
+    expect(persist).toHaveBeenCalledTimes(2);
+  });
+
+  test('simulateEviction wipes storage that is not persisted', async () => {
+    const storage = storageFactory({ persisted: false, initialTree: { dir: { 'file.txt': 'Hello' }, 'other.txt': 'World' } });
+    const root = await storage.getDirectory();
+    const directoryHandle = await root.getDirectoryHandle('dir');
+    const fileHandle = await directoryHandle.getFileHandle('file.txt');
+    const syncHandle = await (await root.getFileHandle('other.txt')).createSyncAccessHandle();
+
+    expect(storage.simulateEviction()).toBe(true);
+
+    expect(await dumpTree(root)).toStrictEqual({});
+    expect(await storage.estimate()).toStrictEqual({ usage: 0, quota: 1024 ** 3, usageDetails: {} });
+    await expect(fileHandle.getFile()).rejects.toThrow(expect.objectContaining({ name: 'NotFoundError' }));
+    await expect(directoryHandle.getFileHandle('file.txt')).rejects.toThrow(expect.objectContaining({ name: 'NotFoundError' }));
+    expect(() => syncHandle.getSize()).toThrow(expect.objectContaining({ name: 'InvalidStateError' }));
+
+    // Data can be written again afterwards
+    const recovered = await root.getFileHandle('file.txt', { create: true });
+    const writable = await recovered.createWritable();
+    await writable.write('Recovered');
+    await writable.close();
+    expect(await dumpTree(root)).toStrictEqual({ 'file.txt': 'Recovered' });
+  });
+
+  test('handles to evicted entries reject every operation', async () => {
+    const storage = storageFactory({ persisted: false, initialTree: { dir: { 'file.txt': 'Hello', nested: {} } } });
+    const root = await storage.getDirectory();
+    const directoryHandle = await root.getDirectoryHandle('dir');
+    const fileHandle = await directoryHandle.getFileHandle('file.txt');
+
+    storage.simulateEviction();
+
+    const notFound = expect.objectContaining({ name: 'NotFoundError' });
+    await expect(fileHandle.createWritable()).rejects.toThrow(notFound);
+    await expect(fileHandle.createSyncAccessHandle()).rejects.toThrow(notFound);
+    await expect(directoryHandle.getFileHandle('new.txt', { create: true })).rejects.toThrow(notFound);
+    await expect(directoryHandle.getDirectoryHandle('new', { create: true })).rejects.toThrow(notFound);
+    await expect(directoryHandle.removeEntry('nested')).rejects.toThrow(notFound);
+    await expect(directoryHandle.remove()).rejects.toThrow(notFound);
+    await expect(directoryHandle.keys().next()).rejects.toThrow(notFound);
+    expect(await dumpTree(root)).toStrictEqual({});
+  });
+
+  test('handles to removed entries reject every operation', async () => {
+    const root = await storageFactory({ initialTree: { dir: {}, 'file.txt': 'Hello' } }).getDirectory();
+    const directoryHandle = await root.getDirectoryHandle('dir');
+    const fileHandle = await root.getFileHandle('file.txt');
+    await root.removeEntry('dir');
+    await fileHandle.remove();
+
+    const notFound = expect.objectContaining({ name: 'NotFoundError' });
+    await expect(fileHandle.createWritable()).rejects.toThrow(notFound);
+    await expect(fileHandle.createSyncAccessHandle()).rejects.toThrow(notFound);
+    await expect(directoryHandle.getFileHandle('new.txt', { create: true })).rejects.toThrow(notFound);
+    await expect(directoryHandle.getDirectoryHandle('new', { create: true })).rejects.toThrow(notFound);
+    await expect(directoryHandle.entries().next()).rejects.toThrow(notFound);
+    expect(await dumpTree(root)).toStrictEqual({});
+  });
+
+  test('simulateEviction keeps persisted storage', async () => {
+    const storage = storageFactory({ persisted: false, initialTree: { 'file.txt': 'Hello' } });
+    const root = await storage.getDirectory();
+    await storage.persist();
+
+    expect(storage.simulateEviction()).toBe(false);
+    expect(await dumpTree(root)).toStrictEqual({ 'file.txt': 'Hello' });
+  });
+
+  test('storage is evicted once usage crosses the eviction threshold', async () => {
+    const storage = storageFactory({ persisted: false, quota: 100, evictionThreshold: 0.5, initialTree: { 'a.txt': 'Hello' } });
+    const root = await storage.getDirectory();
+    const fileHandle = await root.getFileHandle('b.bin', { create: true });
+    const syncHandle = await fileHandle.createSyncAccessHandle();
+
+    syncHandle.write(new Uint8Array(45));
+    await Promise.resolve();
+    expect(await dumpTree(root, { encoding: 'bytes' })).toStrictEqual({
+      'a.txt': [...new TextEncoder().encode('Hello')],
+      'b.bin': Array(45).fill(0),
+    });
+
+    syncHandle.write(new Uint8Array(1), { at: 45 });
+    await Promise.resolve();
+    expect(await dumpTree(root)).toStrictEqual({});
+    await expect(fileHandle.getFile()).rejects.toThrow(expect.objectContaining({ name: 'NotFoundError' }));
+  });
+
+  test('storage buckets have their own root directory and usage', async () => {
+    const inbox = await globalThis.navigator.storageBuckets.open('inbox');
+    const drafts = await globalThis.navigator.storageBuckets.open('drafts');
+    const inboxRoot = await inbox.getDirectory();
+    await inboxRoot.getFileHandle('mail.txt', { create: true });
+    const writable = await (await inboxRoot.getFileHandle('mail.txt')).createWritable();
+    await writable.write('Hello');
+    await writable.close();
+
+    expect(await globalThis.navigator.storageBuckets.open('inbox')).toBe(inbox);
+    expect(await globalThis.navigator.storageBuckets.keys()).toStrictEqual(['inbox', 'drafts']);
+    expect(await dumpTree(inboxRoot)).toStrictEqual({ 'mail.txt': 'Hello' });
+    expect(await dumpTree(await drafts.getDirectory())).toStrictEqual({});
+    expect(await dumpTree(await globalThis.navigator.storage.getDirectory())).toStrictEqual({});
+    expect((await inbox.estimate()).usage).toBe(5);
+    expect((await drafts.estimate()).usage).toBe(0);
+  });
+
+  test('storage buckets enforce their own quota', async () => {
+    const storageBuckets = storageBucketManagerFactory({ quota: 100 });
+    const small = await storageBuckets.open('small', { quota: 4 });
+    const large = await storageBuckets.open('large');
+
+    const smallFile = await (await small.getDirectory()).getFileHandle('file.bin', { create: true });
+    const smallHandle = await smallFile.createSyncAccessHandle();
+    expect(() => smallHandle.write(new Uint8Array(5))).toThrow(expect.objectContaining({ name: 'QuotaExceededError' }));
+
+    const largeFile = await (await large.getDirectory()).getFileHandle('file.bin', { create: true });
+    const largeHandle = await largeFile.createSyncAccessHandle();
+    expect(largeHandle.write(new Uint8Array(50))).toBe(50);
+    expect(await large.estimate()).toStrictEqual({ usage: 50, quota: 100, usageDetails: { fileSystem: 50 } });
+  });
+
+  test('storage bucket options apply when the bucket is created', async () => {
+    const storageBuckets = storageBucketManagerFactory({ persist: 'denied' });
+    const logs = await storageBuckets.open('logs', { durability: 'strict', expires: 1_000, persisted: true });
+
+    expect(await logs.durability()).toBe('strict');
+    expect(await logs.expires()).toBe(1_000);
+    expect(await logs.persisted()).toBe(false);
+    await logs.setExpires(2_000);
+    expect(await logs.expires()).toBe(2_000);
+
+    const reopened = await storageBuckets.open('logs', { durability: 'relaxed' });
+    expect(await reopened.durability()).toBe('strict');
+    expect(await (await storageBuckets.open('cache')).durability()).toBe('relaxed');
+    expect(await (await storageBuckets.open('granted', { persisted: true })).persisted()).toBe(false);
+    expect(await (await storageBucketManagerFactory().open('granted', { persisted: true })).persisted()).toBe(true);
+  });
+
+  test('deleting a storage bucket wipes its data', async () => {
+    const storageBuckets = storageBucketManagerFactory();
+    const cache = await storageBuckets.open('cache');
+    const root = await cache.getDirectory();
+    const fileHandle = await root.getFileHandle('entry.txt', { create: true });
+
+    await storageBuckets.delete('cache');
+    await storageBuckets.delete('missing');
+
+    expect(await storageBuckets.keys()).toStrictEqual([]);
+    await expect(fileHandle.getFile()).rejects.toThrow(expect.objectContaining({ name: 'NotFoundError' }));
+    const reopened = await storageBuckets.open('cache');
+    expect(reopened).not.toBe(cache);
+    expect(await dumpTree(await reopened.getDirectory())).toStrictEqual({});
+  });
+
+  test('storage bucket names are validated', async () => {
+    const storageBuckets = storageBucketManagerFactory();
+
+    for (const name of ['', 'Upper', '_leading', 'has space', 'a'.repeat(65)]) {
+      await expect(storageBuckets.open(name)).rejects.toThrow(TypeError);
+      await expect(storageBuckets.delete(name)).rejects.toThrow(TypeError);
+    }
+    await expect(storageBuckets.open('a'.repeat(64))).resolves.toBeDefined();
+  });
+
+  test('entries cannot be moved between storage buckets', async () => {
+    const inbox = await globalThis.navigator.storageBuckets.open('inbox');
+    const drafts = await globalThis.navigator.storageBuckets.open('drafts', { quota: 10 });
+    const fileHandle = await (await inbox.getDirectory()).getFileHandle('mail.txt', { create: true });
+    const writable = await fileHandle.createWritable();
+    await writable.write('Hello');
+    await writable.close();
+
+    const differentStorage = expect.objectContaining({ name: 'InvalidModificationError' });
+    await expect(fileHandle.move(await drafts.getDirectory())).rejects.toThrow(differentStorage);
+    await expect(fileHandle.move(await globalThis.navigator.storage.getDirectory())).rejects.toThrow(differentStorage);
+    expect(await dumpTree(await inbox.getDirectory())).toStrictEqual({ 'mail.txt': 'Hello' });
+    expect((await drafts.estimate()).usage).toBe(0);
+  });
+
+  test('journal records are tagged with the storage bucket', async () => {
+    const journal = new OperationJournal();
+    resetMockOPFS({ journal });
+    const inbox = await globalThis.navigator.storageBuckets.open('inbox');
+    await (await inbox.getDirectory()).getFileHandle('mail.txt', { create: true });
+    await (await globalThis.navigator.storage.getDirectory()).getFileHandle('file.txt', { create: true });
+
+    expect(journal.getRecords().map(({ path, bucket }) => ({ path, bucket }))).toStrictEqual([
+      { path: 'mail.txt', bucket: 'inbox' },
+      { path: 'file.txt', bucket: undefined },
+    ]);
+    expect(journal.getRecords({ bucket: 'inbox' })).toHaveLength(1);
+  });
+
+  test('resetMockOPFS replaces storage buckets', async () => {
+    await globalThis.navigator.storageBuckets.open('inbox');
+
+    resetMockOPFS();
+
+    expect(await globalThis.navigator.storageBuckets.keys()).toStrictEqual([]);
+  });
 });
@@ -1,5 +1,7 @@
-import { isDirectoryHandle, isFileHandle } from './utils';
+import type { OperationJournal, OperationRecord } from './journal';
+import { sleep } from './latency';
 import type { PermissionHandler } from './types';
+import { isDirectoryHandle, isFileHandle } from './utils';
 
 // This type isn't exported from lib.dom.d.ts, so we duplicate it here
 interface WriteParams {
@@ -16,506 +18,1590 @@ const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'obj
 const isLegacyWriteParams = (v: unknown): v is LegacyWriteParams =>
   isObject(v) && !('type' in (v as Record<string, unknown>)) && 'data' in (v as Record<string, unknown>);
 
+// Shared locks can be taken any number of times, as long as they are of the same type.
+// Sync access handles take 'exclusive', 'shared-read' or 'shared-unsafe' locks depending on their mode,
+// writable streams take 'exclusive' or 'shared-siloed' ones.
+type FileLockType = 'exclusive' | 'shared-read' | 'shared-unsafe' | 'shared-siloed';
+
+type FileLockHolder = 'writable stream' | 'sync access handle';
+
+interface FileLock {
+  type: FileLockType;
+  holder: FileLockHolder;
+  owners: Set<WritableState | SyncAccessHandleState>;
+}
+
+// Sync access handles write in place, this is what's needed to undo a change they made until it's flushed
+interface UnflushedChange {
+  at: number;
+  // Number of bytes written, truncations are 0 since they can't be torn
+  length: number;
+  // Bytes the change overwrote or removed, starting at `at`
+  previous: Uint8Array;
+  previousSize: number;
+}
+
+// Content of a single file, as kept by a storage backend
+export interface FileContent {
+  size(): number;
+  // Returns a copy of up to `length` bytes starting at `at`, fewer if the file ends before
+  read(at: number, length: number): Uint8Array;
+  // Writing past the end of the file fills the gap with zeros
+  write(at: number, data: Uint8Array): void;
+  // Extending the file fills it with zeros
+  truncate(size: number): void;
+  // Returns a copy of the whole content
+  snapshot(): Uint8Array;
+  // Called once the content can no longer be reached, e.g. after a writable stream is committed or the file is removed
+  dispose?(): void;
+}
+
+// Called for every new file, and for the copies writable streams and buffered sync access handles make changes to.
+// The mock only ever hands contents back to the backend that created them.
+export interface StorageBackend {
+  // `name` is the entry the content is created for, backends may use it to label the content. It starts as a copy of `source` when given.
+  create(name: string, source?: FileContent): FileContent;
+}
+
+// Capacity at least doubles whenever the content outgrows it, so appending is amortized O(1) instead of copying the whole file every time
+class MemoryFileContent implements FileContent {
+  // Bytes past `length` are spare capacity, they're kept zeroed so the file can grow into them without clearing them first
+  private bytes: Uint8Array;
+  private length: number;
+
+  constructor(bytes: Uint8Array = new Uint8Array()) {
+    this.bytes = bytes;
+    this.length = bytes.length;
+  }
+
+  size(): number {
+    return this.length;
+  }
+
+  read(at: number, length: number): Uint8Array {
+    return this.bytes.slice(at, Math.min(at + length, this.length));
+  }
+
+  write(at: number, data: Uint8Array): void {
+    if (at + data.length > this.length) {
+      this.truncate(at + data.length);
+    }
+    this.bytes.set(data, at);
+  }
+
+  truncate(size: number): void {
+    if (size > this.bytes.length) {
+      const grown = new Uint8Array(Math.max(size, this.bytes.length * 2));
+      grown.set(this.bytes.subarray(0, this.length));
+      this.bytes = grown;
+    } else if (size <= this.bytes.length / 4) {
+      // Capacity is given back once most of it is unused
+      this.bytes = this.bytes.slice(0, size);
+    } else if (size < this.length) {
+      this.bytes.fill(0, size, this.length);
+    }
+    this.length = size;
+  }
+
+  snapshot(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+// Keeps file contents on the heap, used unless another backend is passed to the storage
+export const memoryBackend: StorageBackend = {
+  create: (_name, source) => new MemoryFileContent(source?.snapshot()),
+};
+
 interface FileData {
-  content: Uint8Array;
+  content: FileContent;
   lastModified: number;
-  locked?: boolean;
+  lock?: FileLock;
+  unflushedChanges?: UnflushedChange[];
   id: symbol;
 }
 
-const fileSystemFileHandleFactory = (
-  name: string,
-  fileData: FileData,
-  exists: () => boolean,
-  onRemove?: () => void,
-  permissions?: { queryPermission?: PermissionHandler; requestPermission?: PermissionHandler },
-): FileSystemFileHandle => {
-  const checkPermission = async (mode: 'read' | 'readwrite' = 'read'): Promise<void> => {
-    const perm = await (permissions?.queryPermission?.({ mode }) ?? Promise.resolve('granted' as PermissionState));
-    if (perm !== 'granted') {
-      throw new DOMException('Permission denied', 'NotAllowedError');
+interface DirectoryData {
+  files: Map<string, FileSystemFileHandle>;
+  directories: Map<string, FileSystemDirectoryHandle>;
+}
+
+interface EntryData {
+  name: string;
+  // Root directory has no parent
+  parent?: FileSystemDirectoryHandle;
+  context?: FileSystemContext;
+}
+
+interface WritableState {
+  handle: FileSystemFileHandle;
+  // Copy of the file the stream writes to, which replaces the file once the stream is committed
+  content: FileContent;
+  cursorPosition: number;
+  abortReason: string;
+  // These 2 states are being updated automatically in WritableStream.state, but it's not accessible, so we have to do it ourselves
+  isAborted: boolean;
+  isClosed: boolean;
+}
+
+interface SyncAccessHandleState {
+  handle: FileSystemFileHandle;
+  mode: FileSystemSyncAccessHandleMode;
+  closed: boolean;
+  // Whether writes are kept in `buffer` until they're flushed, see SyncAccessHandleDurability
+  buffered: boolean;
+  buffer?: FileContent;
+  // Changes kept in `buffer`, which are replayed onto the file when it's flushed
+  bufferedChanges: BufferedChange[];
+}
+
+// Replaying changes rather than replacing the file keeps what other readwrite-unsafe handles flushed in the meantime
+type BufferedChange = { at: number; data: Uint8Array } | { size: number };
+
+// Chain of entries from the root directory down to (and including) a handle
+export type EntryLocation = { handle: FileSystemHandle; name: string }[];
+
+export interface FileSystemChange {
+  type: Exclude<FileSystemChangeType, 'errored' | 'unknown'>;
+  changedHandle: FileSystemHandle;
+  location: EntryLocation;
+  movedFrom?: EntryLocation;
+}
+
+export type FileSystemOperation =
+  | 'getFile'
+  | 'createWritable'
+  | 'createSyncAccessHandle'
+  | 'remove'
+  | 'move'
+  | 'getFileHandle'
+  | 'getDirectoryHandle'
+  | 'removeEntry'
+  | 'entries'
+  | 'keys'
+  | 'values'
+  | 'resolve'
+  | 'writable.write'
+  | 'writable.seek'
+  | 'writable.truncate'
+  | 'writable.close'
+  | 'writable.abort'
+  | 'syncAccessHandle.getSize'
+  | 'syncAccessHandle.read'
+  | 'syncAccessHandle.write'
+  | 'syncAccessHandle.truncate'
+  | 'syncAccessHandle.flush'
+  | 'syncAccessHandle.close';
+
+export interface FileSystemOperationInfo {
+  operation: FileSystemOperation;
+  // Path of the entry relative to the root directory, e.g. 'dir/file.txt'
+  path: string;
+}
+
+// With 'immediate', writes made through sync access handles are durable right away.
+// With 'flush', they are only visible through the handle that made them until it's flushed or closed.
+export type SyncAccessHandleDurability = 'immediate' | 'flush';
+
+export interface FileSystemContext {
+  queryPermission?: PermissionHandler;
+  requestPermission?: PermissionHandler;
+  quota?: number;
+  // Returns the total number of bytes currently in use, including any predefined usage
+  getUsage?: () => number;
+  onChange?: (change: FileSystemChange) => void;
+  // Throws if the operation should fail
+  injectFault?: (info: FileSystemOperationInfo) => void;
+  // Returns how many milliseconds the operation is delayed for
+  getLatency?: (info: FileSystemOperationInfo) => number;
+  journal?: OperationJournal;
+  durability?: SyncAccessHandleDurability;
+  // Whether sync access handles keep what their unflushed writes overwrote, so a crash can tear them
+  recordUnflushedWrites?: boolean;
+  backend?: StorageBackend;
+  // Bytes every file and directory is counted for on top of its content
+  entryOverhead?: number;
+  // Called with the number of bytes usage grew (or shrank) by whenever the tree changes
+  onUsageChange?: (delta: number) => void;
+  // Name of the storage bucket the tree belongs to, journal records are tagged with it
+  bucket?: string;
+}
+
+// Internal state is kept out of the instances, so it isn't exposed and can be accessed synchronously across the tree
+const fileDataRegistry = new WeakMap<FileSystemFileHandle, FileData>();
+const directoryDataRegistry = new WeakMap<FileSystemDirectoryHandle, DirectoryData>();
+const entryRegistry = new WeakMap<FileSystemHandle, EntryData>();
+const writableRegistry = new WeakMap<FileSystemWritableFileStream, WritableState>();
+const syncAccessHandleRegistry = new WeakMap<FileSystemSyncAccessHandle, SyncAccessHandleState>();
+
+// Only the mock itself can construct these classes, calling their constructors directly throws like it does in browsers
+const constructorKey = Symbol('constructorKey');
+
+const assertConstructorKey = (key: symbol | undefined): void => {
+  if (key !== constructorKey) {
+    throw new TypeError('Illegal constructor');
+  }
+};
+
+// Methods called on objects that weren't created by the mock throw, as they do in browsers
+const getInternalState = <Target extends object, State>(registry: WeakMap<Target, State>, target: Target): State => {
+  const state = registry.get(target);
+  if (!state) {
+    throw new TypeError('Illegal invocation');
+  }
+  return state;
+};
+
+const getContext = (handle: FileSystemHandle): FileSystemContext | undefined => {
+  return entryRegistry.get(handle)?.context;
+};
+
+const createFileContent = (context: FileSystemContext | undefined, name: string, source?: FileContent): FileContent => {
+  return (context?.backend ?? memoryBackend).create(name, source);
+};
+
+// Copy of a file that changes are made to before they replace it
+const createSwapContent = (handle: FileSystemFileHandle, source?: FileContent): FileContent => {
+  return createFileContent(getContext(handle), handle.name, source);
+};
+
+const getChildren = (handle: FileSystemHandle | undefined): DirectoryData | undefined => {
+  return handle ? directoryDataRegistry.get(handle as FileSystemDirectoryHandle) : undefined;
+};
+
+// An entry exists as long as its parent still references it under its current name
+const entryExists = (handle: FileSystemHandle): boolean => {
+  const entry = entryRegistry.get(handle);
+  const siblings = getChildren(entry?.parent);
+  if (!entry || !siblings) {
+    return false;
+  }
+  return siblings.files.get(entry.name) === handle || siblings.directories.get(entry.name) === handle;
+};
+
+// The root stays usable, every other handle fails once its entry, or one of its ancestors, was removed or evicted
+const assertEntryExists = (handle: FileSystemHandle): void => {
+  if (!getEntryLocation(handle)) {
+    throw new DOMException('A requested file or directory could not be found at the time an operation was processed.', 'NotFoundError');
+  }
+};
+
+// Returns undefined for entries that are no longer attached to the tree
+export const getEntryLocation = (handle: FileSystemHandle): EntryLocation | undefined => {
+  const location: EntryLocation = [];
+
+  for (let current: FileSystemHandle | undefined = handle; current; ) {
+    const entry = entryRegistry.get(current);
+    if (!entry || (entry.parent && !entryExists(current))) {
+      return undefined;
     }
+    location.unshift({ handle: current, name: entry.name });
+    current = entry.parent;
+  }
+
+  return location;
+};
+
+// Detached entries fall back to their own name, since their position in the tree is no longer known
+const getEntryPath = (handle: FileSystemHandle, childName?: string): string => {
+  const location = getEntryLocation(handle);
+  const names = location ? location.slice(1).map(({ name }) => name) : [entryRegistry.get(handle)?.name ?? handle.name];
+  return (childName === undefined ? names : [...names, childName]).join('/');
+};
+
+// Used by synchronous operations, which can't be delayed
+const checkFault = (operation: FileSystemOperation, handle: FileSystemHandle, childName?: string): void => {
+  getContext(handle)?.injectFault?.({ operation, path: getEntryPath(handle, childName) });
+};
+
+const delayOperation = async (operation: FileSystemOperation, handle: FileSystemHandle, childName?: string): Promise<void> => {
+  const delay = getContext(handle)?.getLatency?.({ operation, path: getEntryPath(handle, childName) }) ?? 0;
+  if (delay > 0) {
+    await sleep(delay);
+  }
+};
+
+const beginOperation = async (operation: FileSystemOperation, handle: FileSystemHandle, childName?: string): Promise<void> => {
+  await delayOperation(operation, handle, childName);
+  checkFault(operation, handle, childName);
+};
+
+const checkPermission = async (handle: FileSystemHandle, mode: 'read' | 'readwrite' = 'read'): Promise<void> => {
+  const perm = await (getContext(handle)?.queryPermission?.({ mode }) ?? Promise.resolve('granted' as PermissionState));
+  if (perm !== 'granted') {
+    throw new DOMException('Permission denied', 'NotAllowedError');
+  }
+};
+
+interface TraceOptions<Result> {
+  operation: FileSystemOperation;
+  // Name of the child entry the operation targets, for methods on directories that take one
+  childName?: string;
+  getBytes?: (result: Awaited<Result>) => number | undefined;
+}
+
+const startRecord = (
+  journal: OperationJournal,
+  handle: FileSystemHandle,
+  args: unknown[],
+  operation: FileSystemOperation,
+  childName?: string,
+): OperationRecord => {
+  const record: OperationRecord = { operation, path: getEntryPath(handle, childName), args, timestamp: Date.now(), outcome: 'pending' };
+  const bucket = getContext(handle)?.bucket;
+  if (bucket !== undefined) {
+    record.bucket = bucket;
+  }
+  return journal.record(record);
+};
+
+const failRecord = (record: OperationRecord, error: unknown): void => {
+  record.outcome = 'error';
+  record.error = error;
+};
+
+// Runs an operation on behalf of the handle, recording the call in the journal, if there is one
+const traceOperation = <Result>(
+  handle: FileSystemHandle,
+  operationOrOptions: FileSystemOperation | TraceOptions<Result>,
+  args: unknown[],
+  run: () => Result,
+): Result => {
+  const { operation, childName, getBytes }: TraceOptions<Result> =
+    typeof operationOrOptions === 'string' ? { operation: operationOrOptions } : operationOrOptions;
+  const journal = getContext(handle)?.journal;
+  if (!journal) {
+    return run();
+  }
+
+  const record = startRecord(journal, handle, args, operation, childName);
+  const succeed = (result: Awaited<Result>): void => {
+    record.outcome = 'success';
+    record.bytes = getBytes?.(result);
   };
 
-  return {
-    kind: 'file',
-    name,
+  let result: Result;
+  try {
+    result = run();
+  } catch (error) {
+    failRecord(record, error);
+    throw error;
+  }
+
+  if (result instanceof Promise) {
+    return result.then(
+      (value: Awaited<Result>) => {
+        succeed(value);
+        return value;
+      },
+      (error: unknown) => {
+        failRecord(record, error);
+        throw error;
+      },
+    ) as Result;
+  }
+
+  succeed(result as Awaited<Result>);
+  return result;
+};
 
-    queryPermission: permissions?.queryPermission ?? (async (): Promise<PermissionState> => 'granted'),
+// Iterators are recorded when iteration starts, and settled once it finishes
+async function* traceIterator<T>(
+  handle: FileSystemHandle,
+  operation: FileSystemOperation,
+  run: () => FileSystemDirectoryHandleAsyncIterator<T>,
+): FileSystemDirectoryHandleAsyncIterator<T> {
+  const journal = getContext(handle)?.journal;
+  if (!journal) {
+    return yield* run();
+  }
+
+  const record = startRecord(journal, handle, [], operation);
+  try {
+    yield* run();
+  } catch (error) {
+    failRecord(record, error);
+    throw error;
+  } finally {
+    if (record.outcome === 'pending') {
+      record.outcome = 'success';
+    }
+  }
+}
 
-    requestPermission: permissions?.requestPermission ?? (async (): Promise<PermissionState> => 'granted'),
+const getChunkByteLength = (chunk: unknown): number | undefined => {
+  if (typeof chunk === 'string') {
+    return new TextEncoder().encode(chunk).length;
+  }
+  if (chunk instanceof Blob) {
+    return chunk.size;
+  }
+  if (ArrayBuffer.isView(chunk) || chunk instanceof ArrayBuffer) {
+    return chunk.byteLength;
+  }
+  if (isObject(chunk) && (chunk.type === 'write' || (!('type' in chunk) && 'data' in chunk))) {
+    return chunk.data === undefined || chunk.data === null ? 0 : getChunkByteLength(chunk.data);
+  }
+  return undefined;
+};
 
-    remove: async () => {
-      await checkPermission('readwrite');
-      if (!exists()) {
-        throw new DOMException('A requested file or directory could not be found at the time an operation was processed.', 'NotFoundError');
-      }
-      onRemove?.();
-    },
+const notifyChange = (type: FileSystemChange['type'], changedHandle: FileSystemHandle, movedFrom?: EntryLocation): void => {
+  const context = getContext(changedHandle);
+  if (!context?.onChange) {
+    return;
+  }
+  const location = getEntryLocation(changedHandle);
+  if (location) {
+    context.onChange({ type, changedHandle, location, movedFrom });
+  }
+};
+
+// Bytes an entry is counted for, including all of its descendants
+const getEntryUsage = (handle: FileSystemHandle): number => {
+  let usage = getContext(handle)?.entryOverhead ?? 0;
+  const fileData = fileDataRegistry.get(handle as FileSystemFileHandle);
+  if (fileData) {
+    return usage + fileData.content.size();
+  }
+  const children = getChildren(handle);
+  for (const child of [...(children?.files.values() ?? []), ...(children?.directories.values() ?? [])]) {
+    usage += getEntryUsage(child);
+  }
+  return usage;
+};
 
-    isSameEntry: async function (this: FileSystemFileHandle, other: FileSystemHandle): Promise<boolean> {
-      return other === this;
-    },
+// Only entries attached to the tree count towards usage, so this is called before an entry is detached and after it's attached
+const changeUsage = (handle: FileSystemHandle, delta: number): void => {
+  const context = getContext(handle);
+  if (delta !== 0 && context?.onUsageChange && getEntryLocation(handle)) {
+    context.onUsageChange(delta);
+  }
+};
 
-    getFile: async (): Promise<File> => {
-      await checkPermission('read');
-      if (!exists()) {
-        throw new DOMException('A requested file or directory could not be found at the time an operation was processed.', 'NotFoundError');
+// Runs a change to the content of a file, counting how much it grew or shrank by
+const changeContent = (handle: FileSystemFileHandle, fileData: FileData, change: () => void): void => {
+  const previousSize = fileData.content.size();
+  change();
+  changeUsage(handle, fileData.content.size() - previousSize);
+};
+
+const detachEntry = (handle: FileSystemHandle): void => {
+  const entry = entryRegistry.get(handle);
+  const siblings = getChildren(entry?.parent);
+  if (!entry || !siblings) {
+    return;
+  }
+  changeUsage(handle, -getEntryUsage(handle));
+  if (isFileHandle(handle)) {
+    siblings.files.delete(entry.name);
+  } else {
+    siblings.directories.delete(entry.name);
+  }
+};
+
+const acquireLock = (
+  fileData: FileData,
+  type: FileLockType,
+  holder: FileLockHolder,
+  owner: WritableState | SyncAccessHandleState,
+): void => {
+  const { lock } = fileData;
+  if (!lock) {
+    fileData.lock = { type, holder, owners: new Set([owner]) };
+    return;
+  }
+  if (lock.type !== type || type === 'exclusive') {
+    throw new DOMException(`A ${lock.holder} is already open for this file`, 'NoModificationAllowedError');
+  }
+  lock.owners.add(owner);
+};
+
+const releaseLock = (fileData: FileData, owner: WritableState | SyncAccessHandleState): void => {
+  fileData.lock?.owners.delete(owner);
+  if (fileData.lock?.owners.size === 0) {
+    fileData.lock = undefined;
+    // Files removed while they were in use are disposed by the last lock holder, see disposeEntry
+    if (!getEntryLocation(owner.handle)) {
+      fileData.content.dispose?.();
+    }
+  }
+};
+
+const recordUnflushedChange = (fileData: FileData, at: number, length: number, end: number): void => {
+  fileData.unflushedChanges ??= [];
+  fileData.unflushedChanges.push({
+    at,
+    length,
+    previous: fileData.content.read(at, Math.max(end - at, 0)),
+    previousSize: fileData.content.size(),
+  });
+};
+
+// Undoes a change, except for the first `kept` bytes it wrote.
+// Bytes it wrote past the previous end of the file are cut off, only what it overwrote within the file is written back.
+const revertChange = (fileData: FileData, { at, previous, previousSize }: UnflushedChange, kept: number): void => {
+  fileData.content.truncate(kept > 0 ? Math.max(previousSize, at + kept) : previousSize);
+  const overwritten = previous.subarray(kept);
+  if (overwritten.length > 0) {
+    fileData.content.write(at + kept, overwritten);
+  }
+};
+
+// Keeps a random number of the unflushed changes, in order, and tears the first one that's lost by keeping only part of it
+const tearUnflushedChanges = (fileData: FileData, random: () => number): void => {
+  const changes = fileData.unflushedChanges ?? [];
+  const cut = Math.floor(random() * (changes.length + 1));
+  for (let i = changes.length - 1; i > cut; i--) {
+    revertChange(fileData, changes[i], 0);
+  }
+  if (cut < changes.length) {
+    revertChange(fileData, changes[cut], Math.floor(random() * changes[cut].length));
+  }
+};
+
+// Removing an entry takes an exclusive lock, so any open writable stream or sync access handle blocks it.
+// A directory is locked when any of the files it contains is.
+const findBlockingLock = (handle: FileSystemHandle): FileLock | undefined => {
+  const fileData = fileDataRegistry.get(handle as FileSystemFileHandle);
+  if (fileData) {
+    return fileData.lock;
+  }
+  const children = getChildren(handle);
+  for (const child of children ? [...children.files.values(), ...children.directories.values()] : []) {
+    const lock = findBlockingLock(child);
+    if (lock) {
+      return lock;
+    }
+  }
+  return undefined;
+};
+
+// Gives the contents of removed files back to the backend. Files that are still locked keep theirs until the lock is released.
+const disposeEntry = (handle: FileSystemHandle): void => {
+  const fileData = fileDataRegistry.get(handle as FileSystemFileHandle);
+  if (fileData) {
+    if (!fileData.lock) {
+      fileData.content.dispose?.();
+    }
+    return;
+  }
+  const children = getChildren(handle);
+  for (const child of children ? [...children.files.values(), ...children.directories.values()] : []) {
+    disposeEntry(child);
+  }
+};
+
+// Entries with open sync access handles or writable streams can't be removed, moved or replaced
+const assertNotLocked = (handle: FileSystemHandle): void => {
+  const lock = findBlockingLock(handle);
+  if (lock) {
+    throw new DOMException(`The entry is in use by a ${lock.holder}: ${handle.name}`, 'NoModificationAllowedError');
+  }
+};
+
+// Mirrors the browser's checks for entry names, which can't be empty, '.' or '..', nor contain path separators
+const assertValidName = (entryName: string): void => {
+  if (entryName === '' || entryName === '.' || entryName === '..' || entryName.includes('/') || entryName.includes('\\')) {
+    throw new TypeError(`Name is not allowed: ${entryName}`);
+  }
+};
+
+const moveEntry = (
+  handle: FileSystemHandle,
+  destinationOrName: FileSystemDirectoryHandle | string,
+  newEntryName: string | undefined,
+): void => {
+  const entry = entryRegistry.get(handle);
+  if (!entry?.parent) {
+    throw new DOMException('The root directory cannot be moved.', 'InvalidModificationError');
+  }
+  const movedFrom = getEntryLocation(handle);
+  if (!movedFrom) {
+    throw new DOMException('A requested file or directory could not be found at the time an operation was processed.', 'NotFoundError');
+  }
+
+  const destination = typeof destinationOrName === 'string' ? entry.parent : destinationOrName;
+  const targetName = typeof destinationOrName === 'string' ? destinationOrName : (newEntryName ?? entry.name);
+  assertValidName(targetName);
+  const destinationData = getChildren(destination);
+
+  if (!destinationData) {
+    throw new DOMException('The destination is not a directory.', 'TypeMismatchError');
+  }
+  const destinationLocation = getEntryLocation(destination);
+  if (!destinationLocation) {
+    throw new DOMException('The destination directory could not be found at the time an operation was processed.', 'NotFoundError');
+  }
+  // Every storage and bucket has its own root, quota and usage, so entries can't be moved from one to another
+  if (destinationLocation[0].handle !== movedFrom[0].handle) {
+    throw new DOMException('Entries cannot be moved to a different storage.', 'InvalidModificationError');
+  }
+
+  // Walk up from the destination to make sure a directory is not moved into itself or one of its descendants
+  if (isDirectoryHandle(handle)) {
+    for (let ancestor: FileSystemDirectoryHandle | undefined = destination; ancestor; ancestor = entryRegistry.get(ancestor)?.parent) {
+      if (ancestor === handle) {
+        throw new DOMException('A directory cannot be moved into itself or one of its descendants.', 'InvalidModificationError');
       }
+    }
+  }
+
+  const existing = destinationData.files.get(targetName) ?? destinationData.directories.get(targetName);
+  if (existing === handle) {
+    return;
+  }
+  assertNotLocked(handle);
+  if (existing) {
+    // Only files may replace other files, which is what makes "write temp, then rename" patterns atomic
+    if (!isFileHandle(handle) || !isFileHandle(existing)) {
+      throw new DOMException(`An entry with the same name already exists: ${targetName}`, 'InvalidModificationError');
+    }
+    assertNotLocked(existing);
+    notifyChange('disappeared', existing);
+    detachEntry(existing);
+    disposeEntry(existing);
+  }
+
+  detachEntry(handle);
+  entry.name = targetName;
+  entry.parent = destination;
+
+  if (isFileHandle(handle)) {
+    destinationData.files.set(targetName, handle);
+  } else if (isDirectoryHandle(handle)) {
+    destinationData.directories.set(targetName, handle);
+  }
+  changeUsage(handle, getEntryUsage(handle));
+
+  notifyChange('moved', handle, movedFrom);
+};
 
-      // @ts-expect-error - non-standard property used internally for identity during tests
-      const f = new File([fileData.content], name, { lastModified: fileData.lastModified });
-      // @ts-expect-error - attach internal id for isSameEntry in mock-only environment
-      f._opfsId = fileData.id;
-      return f as File;
-    },
+export interface FileSnapshot {
+  content: Uint8Array;
+  lastModified: number;
+}
 
-    createWritable: async (options?: FileSystemCreateWritableOptions): Promise<FileSystemWritableFileStream> => {
-      await checkPermission('readwrite');
-      const keepExistingData = options?.keepExistingData;
+export interface DirectorySnapshot {
+  // Entries are kept in iteration order
+  files: [string, FileSnapshot][];
+  directories: [string, DirectorySnapshot][];
+}
+
+export const snapshotDirectory = (directory: FileSystemDirectoryHandle): DirectorySnapshot => {
+  const directoryData = directoryDataRegistry.get(directory);
+  const snapshot: DirectorySnapshot = { files: [], directories: [] };
+  if (!directoryData) {
+    return snapshot;
+  }
+
+  for (const [fileName, fileHandle] of directoryData.files) {
+    const fileData = fileDataRegistry.get(fileHandle);
+    if (fileData) {
+      snapshot.files.push([fileName, { content: fileData.content.snapshot(), lastModified: fileData.lastModified }]);
+    }
+  }
+  for (const [dirName, directoryHandle] of directoryData.directories) {
+    snapshot.directories.push([dirName, snapshotDirectory(directoryHandle)]);
+  }
+
+  return snapshot;
+};
+
+// Replaces the contents of a directory with the snapshot. Handles to previous descendants are detached, the directory handle itself is kept.
+export const restoreDirectory = (directory: FileSystemDirectoryHandle, snapshot: DirectorySnapshot): void => {
+  const previousUsage = getEntryUsage(directory);
+  disposeEntry(directory);
+  rebuildDirectory(directory, snapshot);
+  changeUsage(directory, getEntryUsage(directory) - previousUsage);
+};
+
+const rebuildDirectory = (directory: FileSystemDirectoryHandle, snapshot: DirectorySnapshot): void => {
+  const directoryData = directoryDataRegistry.get(directory);
+  const context = getContext(directory);
+  if (!directoryData) {
+    return;
+  }
+
+  directoryData.files.clear();
+  directoryData.directories.clear();
+
+  for (const [fileName, { content, lastModified }] of snapshot.files) {
+    const fileContent = createFileContent(context, fileName);
+    fileContent.write(0, content);
+    directoryData.files.set(
+      fileName,
+      fileSystemFileHandleFactory(fileName, { content: fileContent, lastModified, id: Symbol('file') }, directory, context),
+    );
+  }
+  for (const [dirName, directorySnapshot] of snapshot.directories) {
+    const directoryHandle = fileSystemDirectoryHandleFactory(dirName, context, directory);
+    directoryData.directories.set(dirName, directoryHandle);
+    rebuildDirectory(directoryHandle, directorySnapshot);
+  }
+};
+
+type FileSystemTreeContent = string | Uint8Array | Blob;
 
-      let abortReason = '';
+// Object values are directories, unless they describe a file, which is told apart by its numeric lastModified
+export type FileSystemTreeFile = FileSystemTreeContent | { content: FileSystemTreeContent; lastModified: number };
 
-      // These 2 states are being updated automatically in WritableStream.state, but it's not accessible, so we have to do it ourselves
-      let isAborted = false;
-      let isClosed = false;
+export interface FileSystemTree {
+  [name: string]: FileSystemTreeFile | FileSystemTree;
+}
+
+const isFileSystemTreeFile = (value: FileSystemTreeFile | FileSystemTree): value is FileSystemTreeFile => {
+  return typeof value === 'string' || value instanceof Uint8Array || value instanceof Blob || typeof value.lastModified === 'number';
+};
 
-      let content = keepExistingData ? new Uint8Array(fileData.content) : new Uint8Array();
-      let cursorPosition = keepExistingData ? fileData.content.length : 0;
+// Entries are created synchronously, only Blob contents have to be read asynchronously, so the returned promise resolves once they are
+export const populateDirectory = (directory: FileSystemDirectoryHandle, tree: FileSystemTree): Promise<void> => {
+  const directoryData = directoryDataRegistry.get(directory);
+  const context = getContext(directory);
+  const pendingReads: Promise<void>[] = [];
+  if (!directoryData) {
+    return Promise.resolve();
+  }
 
-      // Shared state and helpers for sink and direct methods
-      const writeChunk = async (chunk: FileSystemWriteChunkType): Promise<void> => {
-        if (isAborted) {
-          throw new Error(abortReason);
+  for (const [entryName, value] of Object.entries(tree)) {
+    assertValidName(entryName);
+
+    if (!isFileSystemTreeFile(value)) {
+      let directoryHandle = directoryData.directories.get(entryName);
+      if (!directoryHandle) {
+        const existingFile = directoryData.files.get(entryName);
+        if (existingFile) {
+          detachEntry(existingFile);
+          disposeEntry(existingFile);
         }
-        if (isClosed) {
-          throw new TypeError('Cannot write to a CLOSED writable stream');
+        directoryHandle = fileSystemDirectoryHandleFactory(entryName, context, directory);
+        directoryData.directories.set(entryName, directoryHandle);
+        changeUsage(directoryHandle, getEntryUsage(directoryHandle));
+      }
+      pendingReads.push(populateDirectory(directoryHandle, value));
+      continue;
+    }
+
+    const content = typeof value === 'object' && 'content' in value ? value.content : value;
+    const lastModified = typeof value === 'object' && 'lastModified' in value ? value.lastModified : Date.now();
+    const fileData: FileData = { content: createFileContent(context, entryName), lastModified, id: Symbol('file') };
+    const fileHandle = fileSystemFileHandleFactory(entryName, fileData, directory, context);
+
+    if (typeof content === 'string') {
+      fileData.content.write(0, new TextEncoder().encode(content));
+    } else if (content instanceof Uint8Array) {
+      fileData.content.write(0, content);
+    } else {
+      pendingReads.push(
+        content.arrayBuffer().then((buffer) => {
+          changeContent(fileHandle, fileData, () => {
+            fileData.content.truncate(0);
+            fileData.content.write(0, new Uint8Array(buffer));
+          });
+        }),
+      );
+    }
+
+    const existing = directoryData.files.get(entryName) ?? directoryData.directories.get(entryName);
+    if (existing) {
+      detachEntry(existing);
+      disposeEntry(existing);
+    }
+    directoryData.files.set(entryName, fileHandle);
+    changeUsage(fileHandle, getEntryUsage(fileHandle));
+  }
+
+  return Promise.all(pendingReads).then(() => undefined);
+};
+
+const checkQuota = (handle: FileSystemHandle, additionalBytes: number): void => {
+  const context = getContext(handle);
+  if (additionalBytes <= 0 || context?.quota === undefined || !context.getUsage) {
+    return;
+  }
+  if (context.getUsage() + additionalBytes > context.quota) {
+    throw new DOMException('The operation failed because it would exceed the storage quota.', 'QuotaExceededError');
+  }
+};
+
+const encodeWriteChunk = async (state: WritableState, chunk: FileSystemWriteChunkType): Promise<Uint8Array> => {
+  if (typeof chunk === 'string') {
+    return new TextEncoder().encode(chunk);
+  }
+  if (chunk instanceof Blob) {
+    return new Uint8Array(await chunk.arrayBuffer());
+  }
+  if (ArrayBuffer.isView(chunk)) {
+    return new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+  }
+  if (chunk instanceof ArrayBuffer) {
+    return new Uint8Array(chunk);
+  }
+  if (isLegacyWriteParams(chunk)) {
+    const wp = chunk as LegacyWriteParams;
+    if (wp.position !== undefined && wp.position !== null) {
+      if (typeof wp.position !== 'number' || wp.position < 0) {
+        throw new TypeError('Invalid position value in write parameters');
+      }
+      state.cursorPosition = wp.position;
+    }
+    const data = wp.data;
+    if (data === undefined || data === null) {
+      return new Uint8Array();
+    }
+    if (typeof data === 'string') {
+      return new TextEncoder().encode(data);
+    }
+    if (data instanceof Blob) {
+      return new Uint8Array(await data.arrayBuffer());
+    }
+    if (ArrayBuffer.isView(data)) {
+      return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    }
+    if (data instanceof ArrayBuffer) {
+      return new Uint8Array(data);
+    }
+    throw new TypeError('Invalid data in WriteParams');
+  }
+  throw new TypeError('Invalid data type written to the file. Data must be of type FileSystemWriteChunkType.');
+};
+
+// Shared by the underlying sink and the direct methods of the stream
+const writeChunk = (state: WritableState, chunk: FileSystemWriteChunkType): Promise<void> => {
+  return traceOperation(state.handle, { operation: 'writable.write', getBytes: () => getChunkByteLength(chunk) }, [chunk], async () => {
+    // State is checked after the delay, since the stream may be closed or aborted in the meantime
+    await beginOperation('writable.write', state.handle);
+    if (state.isAborted) {
+      throw new Error(state.abortReason);
+    }
+    if (state.isClosed) {
+      throw new TypeError('Cannot write to a CLOSED writable stream');
+    }
+    if (chunk === undefined) {
+      throw new TypeError('Cannot write undefined data to the stream');
+    }
+
+    let data = chunk;
+
+    // Support {type:'seek'|'truncate'|'write'} forms and plain data
+    if (typeof data === 'object' && 'type' in data) {
+      if (data.type === 'truncate') {
+        if (typeof data.size !== 'number' || data.size < 0) {
+          throw new TypeError('Invalid size value in truncate parameters');
         }
-        if (chunk === undefined) {
-          throw new TypeError('Cannot write undefined data to the stream');
+        state.content.truncate(data.size);
+        state.cursorPosition = Math.min(state.cursorPosition, data.size);
+        return;
+      }
+      if (data.type === 'seek') {
+        const pos = (data as SeekParams).position;
+        if (typeof pos !== 'number' || pos < 0) {
+          throw new TypeError('Invalid position value in seek parameters');
         }
-
-        // Support {type:'seek'|'truncate'|'write'} forms and plain data
-        if (typeof chunk === 'object' && 'type' in chunk) {
-          if (chunk.type === 'truncate') {
-            if (typeof chunk.size !== 'number' || chunk.size < 0) {
-              throw new TypeError('Invalid size value in truncate parameters');
-            }
-            if (chunk.size < content.length) {
-              content = content.slice(0, chunk.size);
-            } else {
-              const extended = new Uint8Array(chunk.size);
-              extended.set(content);
-              content = extended;
-            }
-            cursorPosition = Math.min(cursorPosition, chunk.size);
-            return;
-          }
-          if (chunk.type === 'seek') {
-            const pos = (chunk as SeekParams).position;
-            if (typeof pos !== 'number' || pos < 0) {
-              throw new TypeError('Invalid position value in seek parameters');
-            }
-            cursorPosition = pos;
-            return;
-          }
-          if (chunk.type === 'write') {
-            const wp = chunk as WriteParams;
-            if (wp.size !== undefined && wp.size !== null) {
-              if (typeof wp.size !== 'number' || wp.size < 0) {
-                throw new TypeError('Invalid size value in write parameters');
-              }
-              // Spec allows size in truncate branch; for write, we ignore after validation.
-            }
-            if (wp.position !== undefined && wp.position !== null) {
-              if (typeof wp.position !== 'number' || wp.position < 0) {
-                throw new TypeError('Invalid position value in write parameters');
-              }
-              cursorPosition = wp.position;
-            }
-            // Reassign to the underlying data for encoding path without using `any`
-            chunk = (wp.data ?? new Uint8Array()) as unknown as FileSystemWriteChunkType;
+        state.cursorPosition = pos;
+        return;
+      }
+      if (data.type === 'write') {
+        const wp = data as WriteParams;
+        if (wp.size !== undefined && wp.size !== null) {
+          if (typeof wp.size !== 'number' || wp.size < 0) {
+            throw new TypeError('Invalid size value in write parameters');
           }
+          // Spec allows size in truncate branch; for write, we ignore after validation.
         }
-
-        let encoded: Uint8Array;
-
-        if (typeof chunk === 'string') {
-          encoded = new TextEncoder().encode(chunk);
-        } else if (chunk instanceof Blob) {
-          const ab = await chunk.arrayBuffer();
-          encoded = new Uint8Array(ab);
-        } else if (ArrayBuffer.isView(chunk)) {
-          encoded = new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength);
-        } else if (chunk instanceof ArrayBuffer) {
-          encoded = new Uint8Array(chunk);
-        } else if (isLegacyWriteParams(chunk)) {
-          const wp = chunk as LegacyWriteParams;
-          if (wp.position !== undefined && wp.position !== null) {
-            if (typeof wp.position !== 'number' || wp.position < 0) {
-              throw new TypeError('Invalid position value in write parameters');
-            }
-            cursorPosition = wp.position;
+        if (wp.position !== undefined && wp.position !== null) {
+          if (typeof wp.position !== 'number' || wp.position < 0) {
+            throw new TypeError('Invalid position value in write parameters');
           }
-          const data = wp.data;
-          if (data === undefined || data === null) {
-            encoded = new Uint8Array();
-          } else if (typeof data === 'string') {
-            encoded = new TextEncoder().encode(data);
-          } else if (data instanceof Blob) {
-            const ab = await data.arrayBuffer();
-            encoded = new Uint8Array(ab);
-          } else if (ArrayBuffer.isView(data)) {
-            encoded = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
-          } else if (data instanceof ArrayBuffer) {
-            encoded = new Uint8Array(data);
-          } else {
-            throw new TypeError('Invalid data in WriteParams');
-          }
-        } else {
-          throw new TypeError('Invalid data type written to the file. Data must be of type FileSystemWriteChunkType.');
+          state.cursorPosition = wp.position;
         }
+        // Reassign to the underlying data for encoding path without using `any`
+        data = (wp.data ?? new Uint8Array()) as unknown as FileSystemWriteChunkType;
+      }
+    }
 
-        const requiredSize = cursorPosition + encoded.length;
+    const encoded = await encodeWriteChunk(state, data);
+    state.content.write(state.cursorPosition, encoded);
+    state.cursorPosition += encoded.length;
+  });
+};
 
-        if (content.length < requiredSize) {
-          const extended = new Uint8Array(requiredSize);
-          extended.set(content);
-          content = extended;
-        }
+const closeWritable = (state: WritableState): Promise<void> => {
+  const fileData = getInternalState(fileDataRegistry, state.handle);
+  return traceOperation(state.handle, { operation: 'writable.close', getBytes: () => fileData.content.size() }, [], async () => {
+    try {
+      await beginOperation('writable.close', state.handle);
+      if (state.isClosed) {
+        throw new TypeError('Cannot close a CLOSED writable stream');
+      }
+      if (state.isAborted) {
+        throw new TypeError('Cannot close a ERRORED writable stream');
+      }
+      checkQuota(state.handle, state.content.size() - fileData.content.size());
+    } catch (error) {
+      // A failed commit errors the stream, like it does in browsers.
+      // Streams that were already closed or aborted have nothing left to release.
+      if (!state.isClosed && !state.isAborted) {
+        state.isAborted = true;
+        releaseLock(fileData, state);
+        state.content.dispose?.();
+      }
+      throw error;
+    }
+    state.isClosed = true;
+    changeContent(state.handle, fileData, () => {
+      fileData.content.dispose?.();
+      fileData.content = state.content;
+    });
+    fileData.unflushedChanges = undefined;
+    fileData.lastModified = Date.now();
+    // Released once the stream is committed, so the committed content is disposed if the file was removed in the meantime
+    releaseLock(fileData, state);
+    notifyChange('modified', state.handle);
+  });
+};
 
-        content.set(encoded, cursorPosition);
-        cursorPosition += encoded.length;
-      };
+const abortWritable = (state: WritableState, reason?: unknown): Promise<void> => {
+  return traceOperation(state.handle, 'writable.abort', [reason], async () => {
+    // Like aborting a closed WritableStream, this is a no-op once the stream was committed, whose content is now the file's
+    if (state.isAborted || state.isClosed) return;
+    await beginOperation('writable.abort', state.handle);
+    // The stream may have been closed or aborted while the operation was delayed
+    if (state.isAborted || state.isClosed) return;
+    if (reason && !state.abortReason) state.abortReason = String(reason);
+    releaseLock(getInternalState(fileDataRegistry, state.handle), state);
+    state.isAborted = true;
+    state.content.dispose?.();
+  });
+};
 
-      const doClose = async (): Promise<void> => {
-        if (isClosed) {
-          throw new TypeError('Cannot close a CLOSED writable stream');
-        }
-        if (isAborted) {
-          throw new TypeError('Cannot close a ERRORED writable stream');
-        }
-        isClosed = true;
-        fileData.content = content;
-        fileData.lastModified = Date.now();
-      };
+// Either way, every stream writes to its own copy of the file, which replaces the file when the stream is closed
+const writableLockTypes: Record<FileSystemWritableFileStreamMode, FileLockType> = {
+  exclusive: 'exclusive',
+  siloed: 'shared-siloed',
+};
 
-      const doAbort = async (reason?: string): Promise<void> => {
-        if (isAborted) return;
-        if (reason && !abortReason) abortReason = String(reason);
-        isAborted = true;
-      };
+export class MockFileSystemWritableFileStream extends WritableStream<FileSystemWriteChunkType> implements FileSystemWritableFileStream {
+  constructor(key?: symbol, sink?: UnderlyingSink<FileSystemWriteChunkType>) {
+    assertConstructorKey(key);
+    super(sink);
+  }
+
+  get [Symbol.toStringTag](): string {
+    return 'FileSystemWritableFileStream';
+  }
+
+  async write(data: FileSystemWriteChunkType): Promise<void> {
+    return writeChunk(getInternalState(writableRegistry, this), data);
+  }
+
+  async close(): Promise<void> {
+    return closeWritable(getInternalState(writableRegistry, this));
+  }
+
+  async abort(reason?: unknown): Promise<void> {
+    return abortWritable(getInternalState(writableRegistry, this), reason);
+  }
+
+  async truncate(size: number): Promise<void> {
+    const state = getInternalState(writableRegistry, this);
+    return traceOperation(state.handle, 'writable.truncate', [size], async () => {
+      if (size < 0) {
+        throw new DOMException('Invalid truncate size', 'IndexSizeError');
+      }
+      await beginOperation('writable.truncate', state.handle);
+      state.content.truncate(size);
+      state.cursorPosition = Math.min(state.cursorPosition, size);
+    });
+  }
+
+  async seek(position: number): Promise<void> {
+    const state = getInternalState(writableRegistry, this);
+    return traceOperation(state.handle, 'writable.seek', [position], async () => {
+      if (position < 0) {
+        throw new DOMException('Invalid seek position', 'IndexSizeError');
+      }
+      await beginOperation('writable.seek', state.handle);
+      state.cursorPosition = position;
+    });
+  }
+}
 
-      const doTruncate = async (size: number): Promise<void> => {
-        if (size < 0) {
-          throw new DOMException('Invalid truncate size', 'IndexSizeError');
-        }
-        if (size < content.length) {
-          content = content.slice(0, size);
-        } else if (size > content.length) {
-          const newBuffer = new Uint8Array(size);
-          newBuffer.set(content);
-          content = newBuffer;
-        }
-        cursorPosition = Math.min(cursorPosition, size);
-      };
+const syncAccessHandleLockTypes: Record<FileSystemSyncAccessHandleMode, FileLockType> = {
+  readwrite: 'exclusive',
+  'read-only': 'shared-read',
+  'readwrite-unsafe': 'shared-unsafe',
+};
 
-      const doSeek = async (position: number): Promise<void> => {
-        if (position < 0) {
-          throw new DOMException('Invalid seek position', 'IndexSizeError');
-        }
-        cursorPosition = position;
-      };
+const assertSyncAccessHandleOpen = (state: SyncAccessHandleState): void => {
+  if (state.closed) {
+    throw new DOMException('The access handle is closed', 'InvalidStateError');
+  }
+};
 
-      const writableStream = new WritableStream<FileSystemWriteChunkType>({
-        write: writeChunk,
-        close: doClose,
-        abort: doAbort,
-      });
+// Used by the methods that modify the file
+const assertSyncAccessHandleWritable = (state: SyncAccessHandleState): void => {
+  assertSyncAccessHandleOpen(state);
+  if (state.mode === 'read-only') {
+    throw new DOMException('Cannot modify a file through a read-only access handle', 'NoModificationAllowedError');
+  }
+};
 
-      // Preserve the original getWriter so we don't recurse when augmenting the stream
-      const originalGetWriter = writableStream.getWriter.bind(writableStream);
+// Content as seen through the handle, which includes its unflushed writes
+const getSyncAccessHandleContent = (state: SyncAccessHandleState): FileContent => {
+  return state.buffer ?? getInternalState(fileDataRegistry, state.handle).content;
+};
 
-      return Object.assign(writableStream, {
-        getWriter: (): WritableStreamDefaultWriter<FileSystemWriteChunkType> => originalGetWriter(),
-        write: async (_chunk: FileSystemWriteChunkType): Promise<void> => writeChunk(_chunk),
-        close: async (): Promise<void> => doClose(),
-        abort: async (reason?: string): Promise<void> => doAbort(reason),
-        truncate: async (size: number): Promise<void> => doTruncate(size),
-        seek: async (position: number): Promise<void> => doSeek(position),
-      });
-    },
+// Buffered handles copy the file on their first change and keep changing the copy until it's flushed
+const prepareSyncAccessHandleChange = (
+  state: SyncAccessHandleState,
+  fileData: FileData,
+  at: number,
+  length: number,
+  end: number,
+): FileContent => {
+  if (state.buffered) {
+    state.buffer ??= createSwapContent(state.handle, fileData.content);
+    return state.buffer;
+  }
+  // The undo log only grows when the storage asked for it, since it's kept until the handle is flushed
+  if (getContext(state.handle)?.recordUnflushedWrites) {
+    recordUnflushedChange(fileData, at, length, end);
+  }
+  return fileData.content;
+};
 
-    createSyncAccessHandle: async (): Promise<FileSystemSyncAccessHandle> => {
-      await checkPermission('readwrite');
-      if (fileData.locked) {
-        throw new DOMException('A sync access handle is already open for this file', 'InvalidStateError');
+const completeSyncAccessHandleChange = (state: SyncAccessHandleState, fileData: FileData, change: BufferedChange): void => {
+  if (state.buffered) {
+    // Written bytes are copied, since the caller may reuse its buffer before the change is flushed
+    state.bufferedChanges.push('data' in change ? { at: change.at, data: change.data.slice() } : change);
+    return;
+  }
+  fileData.lastModified = Date.now();
+  notifyChange('modified', state.handle);
+};
+
+const flushSyncAccessHandle = (state: SyncAccessHandleState): void => {
+  const fileData = getInternalState(fileDataRegistry, state.handle);
+  fileData.unflushedChanges = undefined;
+  if (!state.buffer) {
+    return;
+  }
+  changeContent(state.handle, fileData, () => {
+    for (const change of state.bufferedChanges) {
+      if ('data' in change) {
+        fileData.content.write(change.at, change.data);
+      } else {
+        fileData.content.truncate(change.size);
       }
-      fileData.locked = true;
-      let closed = false;
+    }
+  });
+  fileData.lastModified = Date.now();
+  state.buffer.dispose?.();
+  state.buffer = undefined;
+  state.bufferedChanges = [];
+  notifyChange('modified', state.handle);
+};
 
-      return {
-        getSize: (): number => {
-          if (closed) {
-            throw new DOMException('The access handle is closed', 'InvalidStateError');
-          }
-          return fileData.content.byteLength;
-        },
+export class MockFileSystemSyncAccessHandle implements FileSystemSyncAccessHandle {
+  constructor(key?: symbol) {
+    assertConstructorKey(key);
+  }
+
+  get [Symbol.toStringTag](): string {
+    return 'FileSystemSyncAccessHandle';
+  }
+
+  getSize(): number {
+    const state = getInternalState(syncAccessHandleRegistry, this);
+    return traceOperation(state.handle, 'syncAccessHandle.getSize', [], () => {
+      assertSyncAccessHandleOpen(state);
+      checkFault('syncAccessHandle.getSize', state.handle);
+      return getSyncAccessHandleContent(state).size();
+    });
+  }
+
+  read(buffer: Uint8Array | DataView, options?: FileSystemReadWriteOptions): number {
+    const state = getInternalState(syncAccessHandleRegistry, this);
+    const operation = { operation: 'syncAccessHandle.read', getBytes: (bytesRead: number) => bytesRead } as const;
+    return traceOperation(state.handle, operation, [buffer, options], () => {
+      assertSyncAccessHandleOpen(state);
+      checkFault('syncAccessHandle.read', state.handle);
+
+      const at = options?.at ?? 0;
+      const content = getSyncAccessHandleContent(state);
+      const available = content.size() - at;
+      if (available <= 0) {
+        return 0;
+      }
 
-        read: (buffer: Uint8Array | DataView, { at = 0 } = {}): number => {
-          if (closed) {
-            throw new DOMException('The access handle is closed', 'InvalidStateError');
-          }
+      const writable = buffer instanceof DataView ? buffer.byteLength : buffer.length;
+      const bytesToRead = Math.min(writable, available);
+      const slice = content.read(at, bytesToRead);
 
-          const content = fileData.content;
-          if (at >= content.length) {
-            return 0;
-          }
+      if (buffer instanceof DataView) {
+        for (let i = 0; i < slice.length; i++) {
+          buffer.setUint8(i, slice[i]);
+        }
+      } else {
+        buffer.set(slice, 0);
+      }
 
-          const available = content.length - at;
-          const writable = buffer instanceof DataView ? buffer.byteLength : buffer.length;
-          const bytesToRead = Math.min(writable, available);
-          const slice = content.subarray(at, at + bytesToRead);
-
-          if (buffer instanceof DataView) {
-            for (let i = 0; i < slice.length; i++) {
-              buffer.setUint8(i, slice[i]);
-            }
-          } else {
-            buffer.set(slice, 0);
-          }
+      return bytesToRead;
+    });
+  }
+
+  write(data: Uint8Array | DataView, options?: FileSystemReadWriteOptions): number {
+    const state = getInternalState(syncAccessHandleRegistry, this);
+    const operation = { operation: 'syncAccessHandle.write', getBytes: (bytesWritten: number) => bytesWritten } as const;
+    return traceOperation(state.handle, operation, [data, options], () => {
+      assertSyncAccessHandleWritable(state);
+      checkFault('syncAccessHandle.write', state.handle);
+
+      const at = options?.at ?? 0;
+      const fileData = getInternalState(fileDataRegistry, state.handle);
+      const bytes = data instanceof DataView ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength) : data;
+      const requiredSize = at + bytes.length;
+
+      // Usage only counts durable content, so buffered writes are checked against it
+      checkQuota(state.handle, Math.max(getSyncAccessHandleContent(state).size(), requiredSize) - fileData.content.size());
+
+      changeContent(state.handle, fileData, () =>
+        prepareSyncAccessHandleChange(state, fileData, at, bytes.length, requiredSize).write(at, bytes),
+      );
+      completeSyncAccessHandleChange(state, fileData, { at, data: bytes });
+      return bytes.length;
+    });
+  }
+
+  truncate(size: number): void {
+    const state = getInternalState(syncAccessHandleRegistry, this);
+    traceOperation(state.handle, 'syncAccessHandle.truncate', [size], () => {
+      assertSyncAccessHandleWritable(state);
+      checkFault('syncAccessHandle.truncate', state.handle);
+
+      const fileData = getInternalState(fileDataRegistry, state.handle);
+      checkQuota(state.handle, size - fileData.content.size());
+
+      const end = getSyncAccessHandleContent(state).size();
+      changeContent(state.handle, fileData, () => prepareSyncAccessHandleChange(state, fileData, size, 0, end).truncate(size));
+      completeSyncAccessHandleChange(state, fileData, { size });
+    });
+  }
+
+  async flush(): Promise<void> {
+    const state = getInternalState(syncAccessHandleRegistry, this);
+    return traceOperation(state.handle, 'syncAccessHandle.flush', [], async () => {
+      assertSyncAccessHandleWritable(state);
+      await beginOperation('syncAccessHandle.flush', state.handle);
+      flushSyncAccessHandle(state);
+    });
+  }
+
+  // Closing takes effect synchronously, as it does in browsers, so it isn't delayed.
+  // It can't fail in browsers either, so no faults are injected, which would leave the file locked.
+  async close(): Promise<void> {
+    const state = getInternalState(syncAccessHandleRegistry, this);
+    return traceOperation(state.handle, 'syncAccessHandle.close', [], async () => {
+      if (!state.closed) {
+        flushSyncAccessHandle(state);
+        state.closed = true;
+        releaseLock(getInternalState(fileDataRegistry, state.handle), state);
+      }
+    });
+  }
+}
 
-          return bytesToRead;
-        },
+export abstract class MockFileSystemHandle implements FileSystemHandle {
+  constructor(key?: symbol) {
+    assertConstructorKey(key);
+  }
 
-        write: (data: Uint8Array | DataView, { at = 0 } = {}): number => {
-          if (closed) {
-            throw new DOMException('The access handle is closed', 'InvalidStateError');
-          }
+  abstract get kind(): FileSystemHandleKind;
 
-          const writeLength = data instanceof DataView ? data.byteLength : data.length;
-          const requiredSize = at + writeLength;
+  get [Symbol.toStringTag](): string {
+    return 'FileSystemHandle';
+  }
 
-          if (fileData.content.length < requiredSize) {
-            const newBuffer = new Uint8Array(requiredSize);
-            newBuffer.set(fileData.content);
-            fileData.content = newBuffer;
-          }
+  get name(): string {
+    return getInternalState(entryRegistry, this).name;
+  }
 
-          if (data instanceof DataView) {
-            for (let i = 0; i < data.byteLength; i++) {
-              fileData.content[at + i] = data.getUint8(i);
-            }
-          } else {
-            fileData.content.set(data, at);
-          }
+  async queryPermission(descriptor?: FileSystemHandlePermissionDescriptor): Promise<PermissionState> {
+    return getInternalState(entryRegistry, this).context?.queryPermission?.(descriptor) ?? 'granted';
+  }
 
-          fileData.lastModified = Date.now();
-          return writeLength;
-        },
+  async requestPermission(descriptor?: FileSystemHandlePermissionDescriptor): Promise<PermissionState> {
+    return getInternalState(entryRegistry, this).context?.requestPermission?.(descriptor) ?? 'granted';
+  }
 
-        truncate: (size: number): void => {
-          if (closed) {
-            throw new DOMException('The access handle is closed', 'InvalidStateError');
-          }
+  async isSameEntry(other: FileSystemHandle): Promise<boolean> {
+    return other === this;
+  }
 
-          if (size < fileData.content.length) {
-            fileData.content = fileData.content.slice(0, size);
-          } else if (size > fileData.content.length) {
-            const newBuffer = new Uint8Array(size);
-            newBuffer.set(fileData.content);
-            fileData.content = newBuffer;
-          }
-          fileData.lastModified = Date.now();
-        },
+  abstract remove(): Promise<void>;
 
-        flush: async (): Promise<void> => {
-          if (closed) {
-            throw new DOMException('The access handle is closed', 'InvalidStateError');
-          }
-        },
+  move(newName: string): Promise<void>;
+  move(destination: FileSystemDirectoryHandle, newName?: string): Promise<void>;
+  async move(destinationOrName: FileSystemDirectoryHandle | string, newEntryName?: string): Promise<void> {
+    return traceOperation(this, 'move', [destinationOrName, newEntryName], async () => {
+      await checkPermission(this, 'readwrite');
+      await beginOperation('move', this);
+      moveEntry(this, destinationOrName, newEntryName);
+    });
+  }
+}
 
-        close: async (): Promise<void> => {
-          closed = true;
-          fileData.locked = false;
-        },
-      };
-    },
-  };
-};
+export class MockFileSystemFileHandle extends MockFileSystemHandle implements FileSystemFileHandle {
+  get kind(): 'file' {
+    return 'file';
+  }
+
+  get [Symbol.toStringTag](): string {
+    return 'FileSystemFileHandle';
+  }
+
+  async remove(): Promise<void> {
+    return traceOperation(this, 'remove', [], async () => {
+      await checkPermission(this, 'readwrite');
+      await beginOperation('remove', this);
+      assertEntryExists(this);
+      assertNotLocked(this);
+      notifyChange('disappeared', this);
+      detachEntry(this);
+      disposeEntry(this);
+    });
+  }
+
+  async getFile(): Promise<File> {
+    const fileData = getInternalState(fileDataRegistry, this);
+    return traceOperation(this, { operation: 'getFile', getBytes: (file) => file.size }, [], async () => {
+      await checkPermission(this, 'read');
+      await beginOperation('getFile', this);
+      assertEntryExists(this);
 
-export const fileSystemDirectoryHandleFactory = (
-  name: string,
-  permissions?: { queryPermission?: PermissionHandler; requestPermission?: PermissionHandler },
-  onRemove?: () => void,
-): FileSystemDirectoryHandle => {
-  const files = new Map<string, FileSystemFileHandle>();
-  const directories = new Map<string, FileSystemDirectoryHandle>();
+      // @ts-expect-error - non-standard property used internally for identity during tests
+      const f = new File([fileData.content.snapshot()], this.name, { lastModified: fileData.lastModified });
+      // @ts-expect-error - attach internal id for isSameEntry in mock-only environment
+      f._opfsId = fileData.id;
+      return f as File;
+    });
+  }
+
+  async createWritable(options?: FileSystemCreateWritableOptions): Promise<FileSystemWritableFileStream> {
+    const fileData = getInternalState(fileDataRegistry, this);
+    return traceOperation(this, 'createWritable', [options], async () => {
+      const mode = options?.mode ?? 'siloed';
+      if (!Object.hasOwn(writableLockTypes, mode)) {
+        throw new TypeError(`The provided value '${mode}' is not a valid enum value of type FileSystemWritableFileStreamMode.`);
+      }
+      await checkPermission(this, 'readwrite');
+      await beginOperation('createWritable', this);
+      assertEntryExists(this);
+      const keepExistingData = options?.keepExistingData;
 
-  const getJoinedMaps = (): Map<string, FileSystemHandle> => {
-    return new Map<string, FileSystemHandle>([...files, ...directories]);
-  };
+      const state: WritableState = {
+        handle: this,
+        content: createSwapContent(this, keepExistingData ? fileData.content : undefined),
+        cursorPosition: keepExistingData ? fileData.content.size() : 0,
+        abortReason: '',
+        isAborted: false,
+        isClosed: false,
+      };
+      acquireLock(fileData, writableLockTypes[mode], 'writable stream', state);
 
-  const checkPermission = async (mode: 'read' | 'readwrite' = 'read'): Promise<void> => {
-    const perm = await (permissions?.queryPermission?.({ mode }) ?? Promise.resolve('granted' as PermissionState));
-    if (perm !== 'granted') {
-      throw new DOMException('Permission denied', 'NotAllowedError');
-    }
-  };
+      const writable = new MockFileSystemWritableFileStream(constructorKey, {
+        write: (chunk) => writeChunk(state, chunk),
+        close: () => closeWritable(state),
+        abort: (reason) => abortWritable(state, reason),
+      });
+      writableRegistry.set(writable, state);
+      return writable;
+    });
+  }
+
+  async createSyncAccessHandle(options?: FileSystemCreateSyncAccessHandleOptions): Promise<FileSystemSyncAccessHandle> {
+    const fileData = getInternalState(fileDataRegistry, this);
+    return traceOperation(this, 'createSyncAccessHandle', [options], async () => {
+      const mode = options?.mode ?? 'readwrite';
+      if (!Object.hasOwn(syncAccessHandleLockTypes, mode)) {
+        throw new TypeError(`The provided value '${mode}' is not a valid enum value of type FileSystemSyncAccessHandleMode.`);
+      }
+      await checkPermission(this, mode === 'read-only' ? 'read' : 'readwrite');
+      await beginOperation('createSyncAccessHandle', this);
+      assertEntryExists(this);
+      const state: SyncAccessHandleState = {
+        handle: this,
+        mode,
+        closed: false,
+        buffered: getContext(this)?.durability === 'flush',
+        bufferedChanges: [],
+      };
+      acquireLock(fileData, syncAccessHandleLockTypes[mode], 'sync access handle', state);
 
-  const handle: FileSystemDirectoryHandle = {
-    kind: 'directory',
-    name,
+      const syncAccessHandle = new MockFileSystemSyncAccessHandle(constructorKey);
+      syncAccessHandleRegistry.set(syncAccessHandle, state);
+      return syncAccessHandle;
+    });
+  }
+}
 
-    // Permissions stubs
-    queryPermission: permissions?.queryPermission ?? (async (): Promise<PermissionState> => 'granted'),
-    requestPermission: permissions?.requestPermission ?? (async (): Promise<PermissionState> => 'granted'),
+type DirectoryEntry = FileSystemDirectoryHandle | FileSystemFileHandle;
+
+// Entries are listed up front, delaying each step lets the tree change while it's being iterated
+async function* iterateDirectory<T>(
+  handle: FileSystemDirectoryHandle,
+  operation: 'entries' | 'keys' | 'values',
+  select: (entryName: string, entryHandle: DirectoryEntry) => T,
+): FileSystemDirectoryHandleAsyncIterator<T> {
+  await checkPermission(handle, 'read');
+  await beginOperation(operation, handle);
+  assertEntryExists(handle);
+  const { files, directories } = getInternalState(directoryDataRegistry, handle);
+  for (const [entryName, entryHandle] of [...files, ...directories]) {
+    await delayOperation(operation, handle);
+    yield select(entryName, entryHandle);
+  }
+}
 
-    remove: async () => {
-      await checkPermission('readwrite');
-      if (!onRemove) {
+export class MockFileSystemDirectoryHandle extends MockFileSystemHandle implements FileSystemDirectoryHandle {
+  get kind(): 'directory' {
+    return 'directory';
+  }
+
+  get [Symbol.toStringTag](): string {
+    return 'FileSystemDirectoryHandle';
+  }
+
+  async remove(): Promise<void> {
+    const { files, directories } = getInternalState(directoryDataRegistry, this);
+    return traceOperation(this, 'remove', [], async () => {
+      await checkPermission(this, 'readwrite');
+      await beginOperation('remove', this);
+      if (!getInternalState(entryRegistry, this).parent) {
         // This is usually the root directory
         throw new DOMException('The root directory cannot be removed.', 'InvalidModificationError');
       }
+      assertEntryExists(this);
       // Check emptiness (standard behavior for directory.remove())
-      for await (const _ of handle.values()) {
+      if (files.size > 0 || directories.size > 0) {
         throw new DOMException('The directory is not empty', 'InvalidModificationError');
       }
-      onRemove();
-    },
-
-    isSameEntry: async function (this: FileSystemDirectoryHandle, other: FileSystemHandle): Promise<boolean> {
-      return other === this;
-    },
-
-    getFileHandle: async (fileName: string, options?: { create?: boolean }) => {
+      notifyChange('disappeared', this);
+      detachEntry(this);
+    });
+  }
+
+  async getFileHandle(fileName: string, options?: FileSystemGetFileOptions): Promise<FileSystemFileHandle> {
+    const { files, directories } = getInternalState(directoryDataRegistry, this);
+    return traceOperation(this, { operation: 'getFileHandle', childName: fileName }, [fileName, options], async () => {
+      assertValidName(fileName);
+      const create = !files.has(fileName) && options?.create;
+      await checkPermission(this, create ? 'readwrite' : 'read');
+      await beginOperation('getFileHandle', this, fileName);
+      assertEntryExists(this);
+      // Checked once the operation is no longer delayed, since other calls may have changed the directory in the meantime
       if (directories.has(fileName)) {
         throw new DOMException(`A directory with the same name exists: ${fileName}`, 'TypeMismatchError');
       }
-      if (!files.has(fileName) && options?.create) {
-        await checkPermission('readwrite');
-        files.set(
+      // Another call may have created the file while this one was delayed, it's returned rather than replaced
+      if (create && !files.has(fileName)) {
+        checkQuota(this, getContext(this)?.entryOverhead ?? 0);
+        const newFileHandle = fileSystemFileHandleFactory(
           fileName,
-          fileSystemFileHandleFactory(
-            fileName,
-            { content: new Uint8Array(), lastModified: Date.now(), id: Symbol('file') },
-            () => files.has(fileName),
-            () => files.delete(fileName),
-            permissions,
-          ),
+          { content: createFileContent(getContext(this), fileName), lastModified: Date.now(), id: Symbol('file') },
+          this,
+          getContext(this),
         );
-      } else {
-        await checkPermission('read');
+        files.set(fileName, newFileHandle);
+        changeUsage(newFileHandle, getEntryUsage(newFileHandle));
+        notifyChange('appeared', newFileHandle);
       }
       const fileHandle = files.get(fileName);
       if (!fileHandle) {
         throw new DOMException(`File not found: ${fileName}`, 'NotFoundError');
       }
       return fileHandle;
-    },
-
-    getDirectoryHandle: async (dirName: string, options?: { create?: boolean }): Promise<FileSystemDirectoryHandle> => {
+    });
+  }
+
+  async getDirectoryHandle(dirName: string, options?: FileSystemGetDirectoryOptions): Promise<FileSystemDirectoryHandle> {
+    const { files, directories } = getInternalState(directoryDataRegistry, this);
+    return traceOperation(this, { operation: 'getDirectoryHandle', childName: dirName }, [dirName, options], async () => {
+      assertValidName(dirName);
+      const create = !directories.has(dirName) && options?.create;
+      await checkPermission(this, create ? 'readwrite' : 'read');
+      await beginOperation('getDirectoryHandle', this, dirName);
+      assertEntryExists(this);
+      // Checked once the operation is no longer delayed, since other calls may have changed the directory in the meantime
       if (files.has(dirName)) {
         throw new DOMException(`A file with the same name exists: ${dirName}`, 'TypeMismatchError');
       }
-      if (!directories.has(dirName) && options?.create) {
-        await checkPermission('readwrite');
-        const dir = fileSystemDirectoryHandleFactory(dirName, permissions, () => directories.delete(dirName));
+      // Another call may have created the directory while this one was delayed, it's returned rather than replaced
+      if (create && !directories.has(dirName)) {
+        checkQuota(this, getContext(this)?.entryOverhead ?? 0);
+        const dir = fileSystemDirectoryHandleFactory(dirName, getContext(this), this);
         directories.set(dirName, dir);
-      } else {
-        await checkPermission('read');
+        changeUsage(dir, getEntryUsage(dir));
+        notifyChange('appeared', dir);
       }
       const directoryHandle = directories.get(dirName);
       if (!directoryHandle) {
         throw new DOMException(`Directory not found: ${dirName}`, 'NotFoundError');
       }
       return directoryHandle;
-    },
-
-    removeEntry: async (entryName: string, options?: FileSystemRemoveOptions): Promise<void> => {
-      await checkPermission('readwrite');
-      if (files.has(entryName)) {
-        files.delete(entryName);
+    });
+  }
+
+  async removeEntry(entryName: string, options?: FileSystemRemoveOptions): Promise<void> {
+    const { files, directories } = getInternalState(directoryDataRegistry, this);
+    return traceOperation(this, { operation: 'removeEntry', childName: entryName }, [entryName, options], async () => {
+      assertValidName(entryName);
+      await checkPermission(this, 'readwrite');
+      await beginOperation('removeEntry', this, entryName);
+      assertEntryExists(this);
+      const fileHandle = files.get(entryName);
+      if (fileHandle) {
+        assertNotLocked(fileHandle);
+        notifyChange('disappeared', fileHandle);
+        detachEntry(fileHandle);
+        disposeEntry(fileHandle);
         return;
       }
       const dir = directories.get(entryName);
       if (dir) {
         // Check emptiness if not recursive
-        if (!options?.recursive) {
-          // Determine emptiness by iterating
-          for await (const _ of dir.values()) {
-            // Found at least one child
-            throw new DOMException('The directory is not empty', 'InvalidModificationError');
-          }
+        const children = getChildren(dir);
+        if (!options?.recursive && children && (children.files.size > 0 || children.directories.size > 0)) {
+          throw new DOMException('The directory is not empty', 'InvalidModificationError');
         }
-        directories.delete(entryName);
+        assertNotLocked(dir);
+        notifyChange('disappeared', dir);
+        detachEntry(dir);
+        disposeEntry(dir);
         return;
       }
       throw new DOMException(`No such file or directory: ${entryName}`, 'NotFoundError');
-    },
-
-    [Symbol.asyncIterator]: async function* (): FileSystemDirectoryHandleAsyncIterator<
-      [string, FileSystemDirectoryHandle | FileSystemFileHandle]
-    > {
-      await checkPermission('read');
-      const entries = getJoinedMaps();
-      for (const [n, h] of entries) {
-        yield [n, h as FileSystemDirectoryHandle | FileSystemFileHandle];
+    });
+  }
+
+  [Symbol.asyncIterator](): FileSystemDirectoryHandleAsyncIterator<[string, DirectoryEntry]> {
+    return this.entries();
+  }
+
+  entries(): FileSystemDirectoryHandleAsyncIterator<[string, DirectoryEntry]> {
+    return traceIterator(this, 'entries', () =>
+      iterateDirectory(this, 'entries', (entryName, entryHandle): [string, DirectoryEntry] => [entryName, entryHandle]),
+    );
+  }
+
+  keys(): FileSystemDirectoryHandleAsyncIterator<string> {
+    return traceIterator(this, 'keys', () => iterateDirectory(this, 'keys', (entryName) => entryName));
+  }
+
+  values(): FileSystemDirectoryHandleAsyncIterator<DirectoryEntry> {
+    return traceIterator(this, 'values', () => iterateDirectory(this, 'values', (_, entryHandle) => entryHandle));
+  }
+
+  async resolve(possibleDescendant: FileSystemHandle): Promise<string[] | null> {
+    return traceOperation(this, 'resolve', [possibleDescendant], async () => {
+      await checkPermission(this, 'read');
+      await beginOperation('resolve', this);
+      const location = getEntryLocation(possibleDescendant);
+      const index = location?.findIndex(({ handle: ancestor }) => ancestor === this) ?? -1;
+      if (!location || index === -1) {
+        return null;
       }
-      return undefined;
-    },
+      return location.slice(index + 1).map(({ name: ancestorName }) => ancestorName);
+    });
+  }
+}
 
-    entries: async function* (): FileSystemDirectoryHandleAsyncIterator<[string, FileSystemDirectoryHandle | FileSystemFileHandle]> {
-      await checkPermission('read');
-      const joinedMaps = getJoinedMaps();
-      for (const [n, h] of joinedMaps.entries()) {
-        yield [n, h as FileSystemDirectoryHandle | FileSystemFileHandle];
-      }
-    },
-
-    keys: async function* (): FileSystemDirectoryHandleAsyncIterator<string> {
-      await checkPermission('read');
-      const joinedMaps = getJoinedMaps();
-      yield* joinedMaps.keys();
-    },
-
-    values: async function* (): FileSystemDirectoryHandleAsyncIterator<FileSystemDirectoryHandle | FileSystemFileHandle> {
-      await checkPermission('read');
-      const joinedMaps = getJoinedMaps();
-      for (const h of joinedMaps.values()) {
-        yield h as FileSystemDirectoryHandle | FileSystemFileHandle;
+export interface SimulateCrashOptions {
+  // Unflushed changes made through sync access handles are partially lost, the last one that survives may be torn.
+  // Requires the storage to be created with recordUnflushedWrites.
+  tearUnflushedWrites?: boolean;
+  random?: () => number;
+}
+
+// Drops every open writable stream without committing it and closes every sync access handle, leaving the tree as a page reload would see it
+export const crashDirectory = (directory: FileSystemDirectoryHandle, options: SimulateCrashOptions = {}): void => {
+  const directoryData = directoryDataRegistry.get(directory);
+  if (!directoryData) {
+    return;
+  }
+  if (options.tearUnflushedWrites && !getContext(directory)?.recordUnflushedWrites) {
+    throw new TypeError('Unflushed writes can only be torn when the storage is created with recordUnflushedWrites');
+  }
+
+  for (const fileHandle of directoryData.files.values()) {
+    const fileData = fileDataRegistry.get(fileHandle);
+    if (!fileData) {
+      continue;
+    }
+
+    for (const owner of fileData.lock?.owners ?? []) {
+      if ('closed' in owner) {
+        owner.closed = true;
+        owner.buffer?.dispose?.();
+        owner.buffer = undefined;
+        owner.bufferedChanges = [];
+      } else {
+        owner.isAborted = true;
+        owner.content.dispose?.();
+        owner.abortReason = 'The writable stream was dropped by a crash';
       }
-    },
-
-    resolve: async function (possibleDescendant: FileSystemHandle): Promise<string[] | null> {
-      await checkPermission('read');
-      const traverseDirectory = async (
-        directory: FileSystemDirectoryHandle,
-        target: FileSystemHandle,
-        path: string[] = [],
-      ): Promise<string[] | null> => {
-        if (await directory.isSameEntry(target)) {
-          return path;
-        }
+    }
+    fileData.lock = undefined;
 
-        for await (const [nm, h] of directory.entries()) {
-          if (isDirectoryHandle(h)) {
-            const result = await traverseDirectory(h, target, [...path, nm]);
-            if (result) {
-              return result;
-            }
-          } else if (isFileHandle(h)) {
-            if (await h.isSameEntry(target)) {
-              return [...path, nm];
-            }
-          }
-        }
+    if (options.tearUnflushedWrites) {
+      changeContent(fileHandle, fileData, () => tearUnflushedChanges(fileData, options.random ?? Math.random));
+    }
+    fileData.unflushedChanges = undefined;
+  }
+  for (const directoryHandle of directoryData.directories.values()) {
+    crashDirectory(directoryHandle, options);
+  }
+};
 
-        return null;
-      };
+const clearDirectory = (directory: FileSystemDirectoryHandle): void => {
+  const directoryData = directoryDataRegistry.get(directory);
+  for (const handle of [...(directoryData?.files.values() ?? []), ...(directoryData?.directories.values() ?? [])]) {
+    notifyChange('disappeared', handle);
+    detachEntry(handle);
+    if (isDirectoryHandle(handle)) {
+      clearDirectory(handle);
+    } else {
+      disposeEntry(handle);
+    }
+  }
+};
+
+// Wipes everything below the directory, as browsers do when they evict best-effort storage.
+// Every descendant is detached, so handles to any of them throw NotFoundError, open streams and sync access handles are dropped.
+export const evictDirectory = (directory: FileSystemDirectoryHandle): void => {
+  crashDirectory(directory);
+  clearDirectory(directory);
+};
+
+const fileSystemFileHandleFactory = (
+  name: string,
+  fileData: FileData,
+  parent: FileSystemDirectoryHandle,
+  context?: FileSystemContext,
+): FileSystemFileHandle => {
+  const handle = new MockFileSystemFileHandle(constructorKey);
+  fileDataRegistry.set(handle, fileData);
+  entryRegistry.set(handle, { name, parent, context });
+  return handle;
+};
 
-      return traverseDirectory(this, possibleDescendant);
-    },
-  } satisfies FileSystemDirectoryHandle;
+export const fileSystemDirectoryHandleFactory = (
+  name: string,
+  context?: FileSystemContext,
+  parent?: FileSystemDirectoryHandle,
+): FileSystemDirectoryHandle => {
+  const handle = new MockFileSystemDirectoryHandle(constructorKey);
+  directoryDataRegistry.set(handle, { files: new Map(), directories: new Map() });
+  entryRegistry.set(handle, { name, parent, context });
   return handle;
 };
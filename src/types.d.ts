@@ -2,6 +2,11 @@
 // https://developer.mozilla.org/en-US/docs/Web/API/FileSystemHandle/queryPermission
 // https://developer.mozilla.org/en-US/docs/Web/API/FileSystemHandle/requestPermission
 // https://developer.mozilla.org/en-US/docs/Web/API/FileSystemHandle/remove
+// https://developer.mozilla.org/en-US/docs/Web/API/FileSystemHandle/move
+// https://developer.mozilla.org/en-US/docs/Web/API/FileSystemFileHandle/createSyncAccessHandle#mode
+// https://developer.mozilla.org/en-US/docs/Web/API/FileSystemFileHandle/createWritable#mode
+// https://developer.mozilla.org/en-US/docs/Web/API/FileSystemObserver
+// https://wicg.github.io/storage-buckets/
 
 export type PermissionHandler = (descriptor?: FileSystemHandlePermissionDescriptor) => Promise<PermissionState>;
 
@@ -10,15 +15,93 @@ declare global {
     mode?: 'read' | 'readwrite';
   }
 
+  type FileSystemWritableFileStreamMode = 'exclusive' | 'siloed';
+
+  interface FileSystemCreateWritableOptions {
+    mode?: FileSystemWritableFileStreamMode;
+  }
+
+  type FileSystemSyncAccessHandleMode = 'readwrite' | 'read-only' | 'readwrite-unsafe';
+
+  interface FileSystemCreateSyncAccessHandleOptions {
+    mode?: FileSystemSyncAccessHandleMode;
+  }
+
   interface FileSystemFileHandle extends FileSystemHandle {
     queryPermission(descriptor?: FileSystemHandlePermissionDescriptor): Promise<PermissionState>;
     requestPermission(descriptor?: FileSystemHandlePermissionDescriptor): Promise<PermissionState>;
     remove(): Promise<void>;
+    move(newName: string): Promise<void>;
+    move(destination: FileSystemDirectoryHandle, newName?: string): Promise<void>;
+    createSyncAccessHandle(options?: FileSystemCreateSyncAccessHandleOptions): Promise<FileSystemSyncAccessHandle>;
   }
 
   interface FileSystemDirectoryHandle extends FileSystemHandle {
     queryPermission(descriptor?: FileSystemHandlePermissionDescriptor): Promise<PermissionState>;
     requestPermission(descriptor?: FileSystemHandlePermissionDescriptor): Promise<PermissionState>;
     remove(): Promise<void>;
+    move(newName: string): Promise<void>;
+    move(destination: FileSystemDirectoryHandle, newName?: string): Promise<void>;
+  }
+
+  type FileSystemChangeType = 'appeared' | 'disappeared' | 'errored' | 'modified' | 'moved' | 'unknown';
+
+  interface FileSystemChangeRecord {
+    readonly changedHandle: FileSystemHandle;
+    readonly relativePathComponents: ReadonlyArray<string>;
+    readonly relativePathMovedFrom: ReadonlyArray<string> | null;
+    readonly root: FileSystemHandle;
+    readonly type: FileSystemChangeType;
+  }
+
+  type FileSystemObserverCallback = (records: FileSystemChangeRecord[], observer: FileSystemObserver) => void;
+
+  interface FileSystemObserverObserveOptions {
+    recursive?: boolean;
+  }
+
+  interface FileSystemObserver {
+    observe(handle: FileSystemHandle, options?: FileSystemObserverObserveOptions): Promise<void>;
+    unobserve(handle: FileSystemHandle): void;
+    disconnect(): void;
+  }
+
+  var FileSystemObserver: {
+    prototype: FileSystemObserver;
+    new (callback: FileSystemObserverCallback): FileSystemObserver;
+  };
+
+  type StorageBucketDurability = 'strict' | 'relaxed';
+
+  interface StorageBucketOptions {
+    persisted?: boolean;
+    durability?: StorageBucketDurability;
+    quota?: number;
+    expires?: DOMHighResTimeStamp;
+  }
+
+  interface StorageBucket {
+    readonly name: string;
+    persist(): Promise<boolean>;
+    persisted(): Promise<boolean>;
+    estimate(): Promise<StorageEstimate>;
+    durability(): Promise<StorageBucketDurability>;
+    setExpires(expires: DOMHighResTimeStamp): Promise<void>;
+    expires(): Promise<DOMHighResTimeStamp | null>;
+    getDirectory(): Promise<FileSystemDirectoryHandle>;
+  }
+
+  interface StorageBucketManager {
+    open(name: string, options?: StorageBucketOptions): Promise<StorageBucket>;
+    keys(): Promise<string[]>;
+    delete(name: string): Promise<void>;
+  }
+
+  interface Navigator {
+    readonly storageBuckets: StorageBucketManager;
+  }
+
+  interface WorkerNavigator {
+    readonly storageBuckets: StorageBucketManager;
   }
 }
@@ -1,3 +1,5 @@
+import type { FileSystemOperation, FileSystemOperationInfo } from './opfs';
+
 export const isFileHandle = (handle: FileSystemHandle): handle is FileSystemFileHandle => {
   return handle.kind === 'file';
 };
@@ -6,17 +8,85 @@ export const isDirectoryHandle = (handle: FileSystemHandle): handle is FileSyste
   return handle.kind === 'directory';
 };
 
-export const getSizeOfDirectory = async (directory: FileSystemDirectoryHandle): Promise<number> => {
-  let totalSize = 0;
+export interface OperationMatcher {
+  operation?: FileSystemOperation | FileSystemOperation[];
+  // Path of the entry relative to the root directory, e.g. 'dir/file.txt'
+  path?: string | RegExp;
+}
+
+export const matchesOperation = (matcher: OperationMatcher, { operation, path }: FileSystemOperationInfo): boolean => {
+  if (
+    matcher.operation !== undefined &&
+    !(Array.isArray(matcher.operation) ? matcher.operation.includes(operation) : matcher.operation === operation)
+  ) {
+    return false;
+  }
+  if (matcher.path !== undefined && !(typeof matcher.path === 'string' ? matcher.path === path : matcher.path.test(path))) {
+    return false;
+  }
+  return true;
+};
+
+export type DumpTreeEncoding = 'utf8' | 'base64' | 'bytes';
 
-  for await (const handle of directory.values()) {
+export interface DumpTreeOptions {
+  encoding?: DumpTreeEncoding;
+  size?: boolean;
+  lastModified?: boolean;
+}
+
+// Bytes are dumped as plain arrays of numbers, so the result stays JSON-serializable
+export type DumpedFileContent = string | number[];
+
+export type DumpedFile = DumpedFileContent | { content: DumpedFileContent; size?: number; lastModified?: number };
+
+export interface DumpedDirectory {
+  [name: string]: DumpedFile | DumpedDirectory;
+}
+
+const encodeFileContent = async (file: File, encoding: DumpTreeEncoding): Promise<DumpedFileContent> => {
+  if (encoding === 'utf8') {
+    return file.text();
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  if (encoding === 'bytes') {
+    return Array.from(bytes);
+  }
+
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+};
+
+export const dumpTree = async (
+  directory: FileSystemDirectoryHandle,
+  { encoding = 'utf8', size = false, lastModified = false }: DumpTreeOptions = {},
+): Promise<DumpedDirectory> => {
+  const tree: DumpedDirectory = {};
+
+  for await (const [name, handle] of directory.entries()) {
     if (isFileHandle(handle)) {
       const file = await handle.getFile();
-      totalSize += file.size;
+      const content = await encodeFileContent(file, encoding);
+
+      if (!size && !lastModified) {
+        tree[name] = content;
+        continue;
+      }
+
+      tree[name] = {
+        content,
+        ...(size && { size: file.size }),
+        ...(lastModified && { lastModified: file.lastModified }),
+      };
     } else if (isDirectoryHandle(handle)) {
-      totalSize += await getSizeOfDirectory(handle);
+      tree[name] = await dumpTree(handle, { encoding, size, lastModified });
     }
   }
 
-  return totalSize;
+  return tree;
 };